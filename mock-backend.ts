@@ -0,0 +1,380 @@
+import * as express from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+
+import {
+  AnalysisAck,
+  HDChunkAck,
+  HDCompleteAck,
+  HDImageChunk,
+  HDUploadManifest,
+  HDUploadStatus,
+  PlateDetectionResult,
+  ProtocolHello,
+  ProtocolHelloAck,
+  ServerImageCapabilities
+} from './src/app/interfaces/plate-detection.interface';
+import { AnalysisImagePayload } from './src/app/core/abstractions/analysis-transport.abstract';
+
+// Backend de detección simulado para desarrollar y hacer demos sin el servicio de Render.
+// Se activa con MOCK_BACKEND=1 o el argumento --mock-backend y se configura con las variables MOCK_*.
+
+export interface MockBackendOptions {
+  latency: number; // ms hasta emitir 'analysis-result'
+  latencyJitter: number; // ± ms aleatorios sobre la latencia
+  errorRate: number; // 0-1: resultados thumbnail_error
+  rejectRate: number; // 0-1: acks con accepted=false
+  plateRate: number; // 0-1: resultados con placa
+  hdRate: number; // 0-1: placas que piden imagen HD
+  tokenTtl: number; // segundos de vida del token
+  password: string | null; // null = cualquier contraseña es válida
+  script: Partial<PlateDetectionResult>[] | null; // Resultados fijos que se repiten en orden
+}
+
+interface MockHDUpload {
+  manifest: HDUploadManifest;
+  chunks: Map<number, Buffer>;
+}
+
+const PROTOCOL_VERSION = 2;
+const REFRESH_TOKEN_TTL = 24 * 60 * 60; // segundos de vida del refresh token
+const IMAGE_CAPABILITIES: ServerImageCapabilities = {
+  formats: ['image/webp', 'image/jpeg', 'image/png'],
+  thumbnailWidth: 300,
+  thumbnailHeight: 300,
+  maxBytes: 15 * 1024
+};
+const SAMPLE_PLATES = ['ABC123', 'XYZ789', 'JKL456', 'MNO321', 'QRS654'];
+const SAMPLE_COLORS = ['blanco', 'gris', 'negro', 'rojo', 'azul'];
+const SAMPLE_VEHICLES = ['sedán', 'camioneta', 'hatchback', 'motocicleta', 'bus'];
+
+/**
+ * Leer la configuración del mock desde el entorno; null si está desactivado.
+ * `--mock-backend` equivale a MOCK_BACKEND=1 en shells sin `VAR=valor comando` (Windows)
+ */
+export function mockBackendOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv
+): MockBackendOptions | null {
+  const enabled = argv.includes('--mock-backend') || (!!env['MOCK_BACKEND'] && env['MOCK_BACKEND'] !== '0');
+  if (!enabled) {
+    return null;
+  }
+
+  const scriptPath = env['MOCK_SCRIPT'];
+  let script: Partial<PlateDetectionResult>[] | null = null;
+  if (scriptPath) {
+    if (!existsSync(scriptPath)) {
+      throw new Error(`MOCK_SCRIPT no encontrado: ${scriptPath}`);
+    }
+    script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+    if (!Array.isArray(script) || script.length === 0) {
+      throw new Error('MOCK_SCRIPT debe contener un array JSON de resultados');
+    }
+  }
+
+  return {
+    latency: Number(env['MOCK_LATENCY_MS'] ?? 400),
+    latencyJitter: Number(env['MOCK_LATENCY_JITTER_MS'] ?? 200),
+    errorRate: Number(env['MOCK_ERROR_RATE'] ?? 0.05),
+    rejectRate: Number(env['MOCK_REJECT_RATE'] ?? 0),
+    plateRate: Number(env['MOCK_PLATE_RATE'] ?? 0.3),
+    hdRate: Number(env['MOCK_HD_RATE'] ?? 0.5),
+    tokenTtl: Number(env['MOCK_TOKEN_TTL'] ?? 900),
+    password: env['MOCK_PASSWORD'] ?? null,
+    script
+  };
+}
+
+/**
+ * Stand-in del backend de detección: rutas REST (/health, /auth) y
+ * el protocolo Socket.IO analyze-image/analysis-result con subidas HD
+ */
+export class MockDetectionBackend {
+  private tokens = new Map<string, { clientId: string; expiresAt: number }>();
+  private refreshTokens = new Map<string, { clientId: string; expiresAt: number }>();
+  private hdUploads = new Map<string, MockHDUpload>();
+  private scriptIndex = 0;
+  private io: Server | null = null;
+
+  constructor(private options: MockBackendOptions) {}
+
+  /**
+   * Rutas REST que el frontend usa fuera del socket
+   */
+  get router(): express.Router {
+    const router = express.Router();
+
+    // El frontend se sirve desde `ng serve` (otro origen) en desarrollo
+    router.use((req, res, next) => {
+      res.header('Access-Control-Allow-Origin', '*');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      if (req.method === 'OPTIONS') {
+        res.sendStatus(204);
+        return;
+      }
+      next();
+    });
+
+    router.get('/health', (req, res) => {
+      res.json({ status: 'ok', mock: true, timestamp: Date.now() });
+    });
+
+    router.post('/auth/login', express.json(), (req, res) => {
+      const { username, password } = req.body ?? {};
+      if (!username || (this.options.password !== null && password !== this.options.password)) {
+        res.status(401).json({ error: 'Credenciales inválidas' });
+        return;
+      }
+
+      res.json(this.issueSession(`mock_${username}_${randomBytes(3).toString('hex')}`));
+    });
+
+    router.post('/auth/refresh', express.json(), (req, res) => {
+      const refreshToken = req.body?.refreshToken;
+      const session = this.refreshTokens.get(refreshToken);
+      if (!session || session.expiresAt < Date.now()) {
+        this.refreshTokens.delete(refreshToken);
+        res.status(401).json({ error: 'Refresh token inválido' });
+        return;
+      }
+
+      this.refreshTokens.delete(refreshToken);
+      res.json(this.issueSession(session.clientId));
+    });
+
+    return router;
+  }
+
+  /**
+   * Montar el servidor Socket.IO sobre el servidor HTTP de Express
+   */
+  attach(httpServer: HttpServer): void {
+    this.io = new Server(httpServer, {
+      cors: { origin: '*' },
+      maxHttpBufferSize: 5 * 1024 * 1024
+    });
+
+    // Mismo contrato que el backend real: Error('unauthorized') en el handshake
+    this.io.use((socket, next) => {
+      const clientId = this.validateToken(socket.handshake.auth?.['token']);
+      if (!clientId) {
+        next(new Error('unauthorized'));
+        return;
+      }
+      socket.data.clientId = clientId;
+      next();
+    });
+
+    this.io.on('connection', socket => this.handleConnection(socket));
+
+    console.log(`🧪 Backend simulado activo (latencia ${this.options.latency}±${this.options.latencyJitter}ms, ` +
+      `errores ${this.options.errorRate * 100}%, placas ${this.options.plateRate * 100}%` +
+      `${this.options.script ? `, guion de ${this.options.script.length} resultados` : ''})`);
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private handleConnection(socket: Socket): void {
+    const clientId: string = socket.data.clientId;
+    console.log(`🔗 [mock] Cliente conectado: ${clientId}`);
+
+    socket.emit('analysis-result', {
+      type: 'connection_established',
+      clientId,
+      protocolVersion: PROTOCOL_VERSION,
+      timestamp: Date.now()
+    } as PlateDetectionResult);
+
+    socket.on('protocol-hello', (hello: ProtocolHello, ack?: (response: ProtocolHelloAck) => void) => {
+      const version = hello?.versions?.includes(PROTOCOL_VERSION) ? PROTOCOL_VERSION : undefined;
+      ack?.(version
+        ? { version }
+        : { version: PROTOCOL_VERSION, supported: [PROTOCOL_VERSION], error: 'Versión de protocolo no soportada' });
+    });
+
+    socket.on('latency-ping', (ping: { sentAt: number }, ack?: (response: { sentAt: number }) => void) => {
+      ack?.({ sentAt: ping?.sentAt });
+    });
+
+    socket.on('image-capabilities', (_offer: { formats: string[] }, ack?: (response: ServerImageCapabilities) => void) => {
+      ack?.(IMAGE_CAPABILITIES);
+    });
+
+    socket.on('analyze-image', (payload: AnalysisImagePayload, ack?: (response: AnalysisAck) => void) => {
+      this.handleAnalyzeImage(socket, payload, ack);
+    });
+
+    socket.on('hd-start', (manifest: HDUploadManifest, ack?: (response: HDUploadStatus) => void) => {
+      this.hdUploads.set(manifest.imageId, { manifest, chunks: new Map() });
+      ack?.({ imageId: manifest.imageId, accepted: true, receivedChunks: [] });
+    });
+
+    socket.on('hd-resume', ({ imageId }: { imageId: string }, ack?: (response: HDUploadStatus) => void) => {
+      const upload = this.hdUploads.get(imageId);
+      ack?.({
+        imageId,
+        accepted: !!upload,
+        receivedChunks: upload ? Array.from(upload.chunks.keys()) : []
+      });
+    });
+
+    socket.on('hd-chunk', (chunk: HDImageChunk, ack?: (response: HDChunkAck) => void) => {
+      const upload = this.hdUploads.get(chunk.imageId);
+      const data = Buffer.from(chunk.data as unknown as Buffer);
+      const ok = !!upload && this.sha256(data) === chunk.checksum;
+      if (ok) {
+        upload.chunks.set(chunk.chunkIndex, data);
+      }
+      ack?.({ imageId: chunk.imageId, chunkIndex: chunk.chunkIndex, ok });
+    });
+
+    socket.on('hd-complete', ({ imageId, checksum }: { imageId: string; checksum: string }, ack?: (response: HDCompleteAck) => void) => {
+      this.handleHDComplete(socket, imageId, checksum, ack);
+    });
+
+    socket.on('disconnect', reason => {
+      console.log(`📵 [mock] Cliente desconectado: ${clientId} (${reason})`);
+    });
+  }
+
+  private handleAnalyzeImage(socket: Socket, payload: AnalysisImagePayload, ack?: (response: AnalysisAck) => void): void {
+    const { requestId, streamId } = payload;
+
+    if (!IMAGE_CAPABILITIES.formats.includes(payload.format)) {
+      ack?.({ requestId, accepted: false, error: `Formato no soportado: ${payload.format}` });
+      return;
+    }
+
+    if (Math.random() < this.options.rejectRate) {
+      ack?.({ requestId, accepted: false, error: 'Frame rechazado por el backend simulado' });
+      return;
+    }
+
+    ack?.({ requestId, accepted: true });
+
+    const startTime = Date.now();
+    setTimeout(() => {
+      socket.emit('analysis-result', {
+        ...this.nextResult(),
+        requestId,
+        streamId,
+        processingTime: Date.now() - startTime,
+        timestamp: Date.now()
+      } as PlateDetectionResult);
+    }, this.randomLatency());
+  }
+
+  private handleHDComplete(socket: Socket, imageId: string, checksum: string, ack?: (response: HDCompleteAck) => void): void {
+    const upload = this.hdUploads.get(imageId);
+    if (!upload || upload.chunks.size !== upload.manifest.totalChunks) {
+      ack?.({ imageId, verified: false });
+      return;
+    }
+
+    const image = Buffer.concat(
+      Array.from({ length: upload.manifest.totalChunks }, (_, index) => upload.chunks.get(index) as Buffer)
+    );
+    const verified = this.sha256(image) === checksum;
+    ack?.({ imageId, verified });
+
+    if (!verified) {
+      upload.chunks.clear();
+      return;
+    }
+
+    this.hdUploads.delete(imageId);
+    setTimeout(() => {
+      socket.emit('analysis-result', {
+        type: 'hd_result',
+        requestId: upload.manifest.requestId,
+        hasPlate: true,
+        plates: [this.pick(SAMPLE_PLATES)],
+        vehicleColor: this.pick(SAMPLE_COLORS),
+        vehicleDescription: this.pick(SAMPLE_VEHICLES),
+        confidence: 0.9 + Math.random() * 0.1,
+        timestamp: Date.now()
+      } as PlateDetectionResult);
+    }, this.randomLatency());
+  }
+
+  /**
+   * Siguiente resultado del guion, o uno aleatorio según las tasas configuradas
+   */
+  private nextResult(): Partial<PlateDetectionResult> {
+    if (this.options.script) {
+      const result = this.options.script[this.scriptIndex % this.options.script.length];
+      this.scriptIndex++;
+      return { type: 'thumbnail_result', ...result };
+    }
+
+    if (Math.random() < this.options.errorRate) {
+      return { type: 'thumbnail_error', error: 'Error simulado del modelo de detección' };
+    }
+
+    if (Math.random() >= this.options.plateRate) {
+      return { type: 'thumbnail_result', hasPlate: false, plates: [], confidence: Math.random() * 0.3 };
+    }
+
+    return {
+      type: 'thumbnail_result',
+      hasPlate: true,
+      plates: [this.pick(SAMPLE_PLATES)],
+      vehicleColor: this.pick(SAMPLE_COLORS),
+      vehicleDescription: this.pick(SAMPLE_VEHICLES),
+      confidence: 0.6 + Math.random() * 0.35,
+      requestHD: Math.random() < this.options.hdRate
+    };
+  }
+
+  private issueSession(clientId: string): { token: string; refreshToken: string; expiresIn: number; clientId: string } {
+    const token = randomBytes(16).toString('hex');
+    const refreshToken = randomBytes(16).toString('hex');
+
+    this.pruneSessions();
+    this.tokens.set(token, { clientId, expiresAt: Date.now() + this.options.tokenTtl * 1000 });
+    this.refreshTokens.set(refreshToken, { clientId, expiresAt: Date.now() + REFRESH_TOKEN_TTL * 1000 });
+
+    return { token, refreshToken, expiresIn: this.options.tokenTtl, clientId };
+  }
+
+  /**
+   * Olvidar tokens caducados para que un mock de larga duración no acumule sesiones
+   */
+  private pruneSessions(): void {
+    const now = Date.now();
+    this.tokens.forEach((session, token) => {
+      if (session.expiresAt < now) this.tokens.delete(token);
+    });
+    this.refreshTokens.forEach((session, refreshToken) => {
+      if (session.expiresAt < now) this.refreshTokens.delete(refreshToken);
+    });
+  }
+
+  private validateToken(token: unknown): string | null {
+    const session = typeof token === 'string' ? this.tokens.get(token) : undefined;
+    if (!session) return null;
+
+    if (session.expiresAt < Date.now()) {
+      this.tokens.delete(token as string);
+      return null;
+    }
+    return session.clientId;
+  }
+
+  private randomLatency(): number {
+    const jitter = (Math.random() * 2 - 1) * this.options.latencyJitter;
+    return Math.max(0, this.options.latency + jitter);
+  }
+
+  private pick<T>(values: T[]): T {
+    return values[Math.floor(Math.random() * values.length)];
+  }
+
+  private sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+}
@@ -4,9 +4,15 @@ import { APP_BASE_HREF } from '@angular/common';
 import { ngExpressEngine } from '@nguniversal/express-engine';
 import * as express from 'express';
 import { existsSync } from 'fs';
+import { createServer } from 'http';
 import { join } from 'path';
 
 import { AppServerModule } from './src/main.server';
+import { MockDetectionBackend, mockBackendOptionsFromEnv } from './mock-backend';
+
+// Backend de detección simulado (MOCK_BACKEND=1 o --mock-backend), compartido por app() y run()
+const mockOptions = mockBackendOptionsFromEnv();
+const mockBackend = mockOptions ? new MockDetectionBackend(mockOptions) : null;
 
 // The Express app is exported so that it can be used by serverless Functions.
 export function app(): express.Express {
@@ -22,6 +28,11 @@ export function app(): express.Express {
   server.set('view engine', 'html');
   server.set('views', distFolder);
 
+  // Rutas REST del backend simulado (/health, /auth/*) antes del catch-all de Universal
+  if (mockBackend) {
+    server.use(mockBackend.router);
+  }
+
   // Example Express Rest API endpoints
   // server.get('/api/**', (req, res) => { });
   // Serve static files from /browser
@@ -41,7 +52,8 @@ function run(): void {
   const port = process.env['PORT'] || 4000;
 
   // Start up the Node server
-  const server = app();
+  const server = createServer(app());
+  mockBackend?.attach(server);
   server.listen(port, () => {
     console.log(`Node Express server listening on http://localhost:${port}`);
   });
@@ -1,10 +1,12 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 import { LiveDetectionComponent } from './components/live-detection/live-detection.component';
+import { FileAnalysisComponent } from './components/file-analysis/file-analysis.component';
 
 const routes: Routes = [
   { path: '', redirectTo: '/live-detection', pathMatch: 'full' },
   { path: 'live-detection', component: LiveDetectionComponent },
+  { path: 'file-analysis', component: FileAnalysisComponent },
   { path: '**', redirectTo: '/live-detection' }
 ];
 
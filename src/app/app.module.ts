@@ -2,16 +2,22 @@ import { NgModule } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { HttpClientModule } from '@angular/common/http';
 
 import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
 
 // Servicios
-import { CameraService } from './services/camera.service';
 import { StorageService } from './services/storage.service';
 import { SocketService } from './services/socket.service';
 import { ImageAnalysisService } from './services/image-analysis.service';
 import { BrowserCapabilitiesService } from './services/browser-capabilities.service';
+import { TransportManagerService } from './services/transport-manager.service';
+import { AnalysisTransport } from './core/abstractions/analysis-transport.abstract';
+import { CameraService } from './core/abstractions/camera.abstract';
+import { UserMediaCameraService } from './services/user-media-camera.service';
+import { FakeCameraService } from './services/fake-camera.service';
+import { environment } from '../environments/environment';
 
 // Componentes especializados aplicando principios SOLID (SRP)
 import { CameraControlComponent } from './components/camera-control/camera-control.component';
@@ -19,6 +25,10 @@ import { AnalysisControlComponent } from './components/analysis-control/analysis
 import { StatsDashboardComponent } from './components/stats-dashboard/stats-dashboard.component';
 import { LiveDetectionComponent } from './components/live-detection/live-detection.component';
 import { BrowserCapabilitiesModalComponent } from './components/browser-capabilities-modal/browser-capabilities-modal.component';
+import { LoginModalComponent } from './components/login-modal/login-modal.component';
+import { FileAnalysisComponent } from './components/file-analysis/file-analysis.component';
+import { CameraControlsComponent } from './components/camera-controls/camera-controls.component';
+import { RoiEditorComponent } from './components/roi-editor/roi-editor.component';
 
 @NgModule({
   declarations: [
@@ -28,20 +38,28 @@ import { BrowserCapabilitiesModalComponent } from './components/browser-capabili
     AnalysisControlComponent,
     StatsDashboardComponent,
     LiveDetectionComponent,
-    BrowserCapabilitiesModalComponent
+    BrowserCapabilitiesModalComponent,
+    LoginModalComponent,
+    FileAnalysisComponent,
+    CameraControlsComponent,
+    RoiEditorComponent
   ],
   imports: [
     BrowserModule.withServerTransition({ appId: 'serverApp' }),
     CommonModule,
     FormsModule,
+    HttpClientModule,
     AppRoutingModule
   ],
   providers: [
-    CameraService,
+    // Cámara simulada (video o imágenes) si el entorno la activa; si no, getUserMedia
+    { provide: CameraService, useExisting: environment.fakeCamera.enabled ? FakeCameraService : UserMediaCameraService },
     StorageService,
     SocketService,
     ImageAnalysisService,
-    BrowserCapabilitiesService
+    BrowserCapabilitiesService,
+    // Transporte de análisis con fallback automático (Socket.IO → WebSocket → HTTP)
+    { provide: AnalysisTransport, useExisting: TransportManagerService }
   ],
   bootstrap: [AppComponent]
 })
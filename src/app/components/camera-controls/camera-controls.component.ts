@@ -0,0 +1,98 @@
+import { Component, Input, OnInit, OnDestroy } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import { CameraControlValues, CameraService } from '../../core/abstractions/camera.abstract';
+import { CameraControl, CameraControlsService, CameraPresets } from '../../services/camera-controls.service';
+
+@Component({
+  selector: 'app-camera-controls',
+  templateUrl: './camera-controls.component.html',
+  styleUrls: ['./camera-controls.component.css']
+})
+export class CameraControlsComponent implements OnInit, OnDestroy {
+  @Input() streamId!: string;
+
+  controls: CameraControl[] = [];
+  site$: Observable<string>;
+  presets$: Observable<CameraPresets>;
+  presetName = '';
+  applying = false;
+  error: string | null = null;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private cameraService: CameraService,
+    private cameraControlsService: CameraControlsService
+  ) {
+    this.site$ = this.cameraControlsService.site$;
+    this.presets$ = this.cameraControlsService.presets$;
+  }
+
+  ngOnInit(): void {
+    // Al abrir o cambiar de cámara cambian las capacidades del track
+    this.subscriptions.push(
+      this.cameraService.activeDevices$.subscribe(() => this.refresh())
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  refresh(): void {
+    const track = this.cameraService.getTrackControls(this.streamId);
+    this.controls = track ? this.cameraControlsService.describe(track) : [];
+  }
+
+  async onChange(control: CameraControl, value: string | number | boolean): Promise<void> {
+    await this.apply({ [control.key]: value });
+  }
+
+  async applyPreset(name: string): Promise<void> {
+    const preset = this.cameraControlsService.getPreset(name);
+    if (preset) {
+      this.presetName = name;
+      await this.apply(preset);
+    }
+  }
+
+  savePreset(): void {
+    const name = this.presetName.trim();
+    if (!name) return;
+
+    const values: CameraControlValues = {};
+    this.controls
+      .filter(control => control.value !== null)
+      .forEach(control => values[control.key] = control.value as string | number | boolean);
+
+    this.cameraControlsService.savePreset(name, values);
+  }
+
+  deletePreset(name: string): void {
+    this.cameraControlsService.deletePreset(name);
+  }
+
+  setSite(site: string): void {
+    this.cameraControlsService.setSite(site);
+  }
+
+  presetNames(presets: CameraPresets): string[] {
+    return Object.keys(presets).sort();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private async apply(values: CameraControlValues): Promise<void> {
+    this.applying = true;
+    this.error = null;
+    try {
+      await this.cameraService.applyControls(this.streamId, values);
+    } catch (error) {
+      console.error('❌ Error aplicando controles de cámara:', error);
+      this.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.applying = false;
+      this.refresh(); // Mostrar lo que la cámara aceptó realmente
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { Component } from '@angular/core';
+import { Observable } from 'rxjs';
+import { FileAnalysisProgress, FileAnalysisService } from '../../services/file-analysis.service';
+import { environment } from '../../../environments/environment';
+
+@Component({
+  selector: 'app-file-analysis',
+  templateUrl: './file-analysis.component.html',
+  styleUrls: ['./file-analysis.component.css']
+})
+export class FileAnalysisComponent {
+  progress$: Observable<FileAnalysisProgress>;
+  sampleRate = environment.fileAnalysis.sampleRate;
+  onlyPlates = false;
+
+  constructor(private fileAnalysisService: FileAnalysisService) {
+    this.progress$ = this.fileAnalysisService.progress$;
+  }
+
+  async onVideoSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Permitir volver a elegir el mismo archivo
+    if (!file) return;
+
+    try {
+      await this.fileAnalysisService.analyzeVideo(file, this.sampleRate > 0 ? this.sampleRate : environment.fileAnalysis.sampleRate);
+    } catch (error) {
+      console.error('❌ Error iniciando análisis de video:', error);
+    }
+  }
+
+  async onFolderSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (files.length === 0) return;
+
+    try {
+      await this.fileAnalysisService.analyzeImages(files);
+    } catch (error) {
+      console.error('❌ Error iniciando análisis de imágenes:', error);
+    }
+  }
+
+  pause(): void {
+    this.fileAnalysisService.pause();
+  }
+
+  resume(): void {
+    this.fileAnalysisService.resume();
+  }
+
+  cancel(): void {
+    this.fileAnalysisService.cancel();
+  }
+
+  exportResults(): void {
+    this.fileAnalysisService.exportResults();
+  }
+
+  isBusy(progress: FileAnalysisProgress): boolean {
+    return progress.status === 'running' || progress.status === 'paused';
+  }
+}
@@ -1,10 +1,25 @@
-import { Component, OnInit, OnDestroy, ViewChild, ElementRef, AfterViewInit } from '@angular/core';
-import { ImageAnalysisService } from '../../services/image-analysis.service';
-import { SocketService } from '../../services/socket.service';
-import { CameraService } from '../../services/camera.service';
+import { Component, OnInit, OnDestroy, ViewChildren, QueryList, ElementRef, AfterViewInit } from '@angular/core';
+import { ImageAnalysisService, StreamAnalysisStats } from '../../services/image-analysis.service';
+import { TransportManagerService } from '../../services/transport-manager.service';
+import { BackendRegistryService, BackendStatus, BackendSwitchEvent } from '../../services/backend-registry.service';
+import {
+  CameraFailureReason,
+  CameraHealth,
+  CameraService,
+  CameraStatistics,
+  CameraStreamConfig,
+  StreamCaptureStats
+} from '../../core/abstractions/camera.abstract';
+import { CameraCapabilities, CameraCapabilitiesService } from '../../services/camera-capabilities.service';
 import { BrowserCapabilitiesService } from '../../services/browser-capabilities.service';
+import { ProtocolDiagnosticsSummary, ProtocolService, ProtocolStatus } from '../../services/protocol.service';
+import { ImageFormatNegotiation, ImageFormatService } from '../../services/image-format.service';
+import { ConnectionQuality, ConnectionQualityService } from '../../services/connection-quality.service';
+import { StorageService } from '../../services/storage.service';
+import { SceneProfileName, SceneProfileService, SceneProfileSwitch } from '../../services/scene-profile.service';
 import { Observable } from 'rxjs';
-import { PlateDetectionResult } from '../../interfaces/plate-detection.interface';
+import { TransportType } from '../../core/abstractions/analysis-transport.abstract';
+import { AnalysisResultEvent, DetectionResult, StoredClip } from '../../interfaces/plate-detection.interface';
 
 @Component({
   selector: 'app-live-detection',
@@ -12,23 +27,73 @@ import { PlateDetectionResult } from '../../interfaces/plate-detection.interface
   styleUrls: ['./live-detection.component.css']
 })
 export class LiveDetectionComponent implements OnInit, OnDestroy, AfterViewInit {
-  @ViewChild('videoElement', { static: false }) videoElement?: ElementRef<HTMLVideoElement>;
+  @ViewChildren('videoElement') videoElements?: QueryList<ElementRef<HTMLVideoElement>>;
   
   isAnalyzing$: Observable<boolean>;
   stats$: Observable<any>;
   isConnected$: Observable<boolean>;
-  lastResult: PlateDetectionResult | null = null;
+  activeTransport$: Observable<TransportType>;
+  activeBackend$: Observable<BackendStatus>;
+  lastBackendSwitch$: Observable<BackendSwitchEvent | null>;
+  offlineQueueDepth$: Observable<number>;
+  protocolStatus$: Observable<ProtocolStatus>;
+  protocolDiagnostics$: Observable<ProtocolDiagnosticsSummary>;
+  imageFormat$: Observable<ImageFormatNegotiation>;
+  connectionQuality$: Observable<ConnectionQuality>;
+  streamStats$: Observable<StreamAnalysisStats[]>;
+  cameraStats$: Observable<CameraStatistics>;
+  captureStats$: Observable<StreamCaptureStats[]>;
+  cameras$: Observable<CameraCapabilities[]>;
+  detectingCameras$: Observable<boolean>;
+  activeDevices$: Observable<Record<string, string>>;
+  cameraHealth$: Observable<Record<string, CameraHealth>>;
+  storedClips$: Observable<StoredClip[]>;
+  sceneProfiles$: Observable<Record<string, SceneProfileName>>;
+  sceneSwitches$: Observable<SceneProfileSwitch[]>;
+  savingClip: Record<string, boolean> = {}; // Clip manual esperando su post-roll, por stream
+  streams: CameraStreamConfig[];
+  simulatedCamera: boolean;
+  lastResults: Record<string, DetectionResult | undefined> = {}; // Último resultado de cada stream
+  lastResult: DetectionResult | null = null;
+  lastResultEvent: AnalysisResultEvent | null = null;
   isCameraActive = false;
 
   constructor(
     private imageAnalysisService: ImageAnalysisService,
-    private socketService: SocketService,
+    private transportManager: TransportManagerService,
+    private backendRegistry: BackendRegistryService,
     private cameraService: CameraService,
-    private browserCapabilitiesService: BrowserCapabilitiesService
+    private browserCapabilitiesService: BrowserCapabilitiesService,
+    private protocolService: ProtocolService,
+    private imageFormatService: ImageFormatService,
+    private connectionQualityService: ConnectionQualityService,
+    private cameraCapabilitiesService: CameraCapabilitiesService,
+    private storageService: StorageService,
+    private sceneProfileService: SceneProfileService
   ) {
     this.isAnalyzing$ = this.imageAnalysisService.isAnalyzing$;
     this.stats$ = this.imageAnalysisService.analysisStats$;
     this.isConnected$ = this.imageAnalysisService.isConnected$;
+    this.activeTransport$ = this.transportManager.activeTransport$;
+    this.activeBackend$ = this.backendRegistry.activeBackend$;
+    this.lastBackendSwitch$ = this.backendRegistry.lastSwitch$;
+    this.offlineQueueDepth$ = this.imageAnalysisService.offlineQueueDepth$;
+    this.protocolStatus$ = this.protocolService.status$;
+    this.protocolDiagnostics$ = this.protocolService.diagnostics$;
+    this.imageFormat$ = this.imageFormatService.negotiation$;
+    this.connectionQuality$ = this.connectionQualityService.quality$;
+    this.streamStats$ = this.imageAnalysisService.streamStats$;
+    this.cameraStats$ = this.cameraService.stats$;
+    this.captureStats$ = this.cameraService.streamStats$;
+    this.streams = this.cameraService.streamConfigs;
+    this.simulatedCamera = this.cameraService.simulated;
+    this.cameras$ = this.cameraCapabilitiesService.cameras$;
+    this.detectingCameras$ = this.cameraCapabilitiesService.detecting$;
+    this.activeDevices$ = this.cameraService.activeDevices$;
+    this.cameraHealth$ = this.cameraService.health$;
+    this.storedClips$ = this.storageService.storedClips$;
+    this.sceneProfiles$ = this.sceneProfileService.profiles$;
+    this.sceneSwitches$ = this.sceneProfileService.switches$;
   }
 
   ngOnInit(): void {
@@ -37,12 +102,12 @@ export class LiveDetectionComponent implements OnInit, OnDestroy, AfterViewInit
     // NO iniciar análisis automáticamente - esperar a que el usuario haga clic
     // this.startAnalysis(); // REMOVIDO
     
-    // Escuchar resultados de análisis
-    this.socketService.handleAnalysisResult().subscribe(result => {
-      if (result) {
-        console.log('📊 Resultado recibido:', result);
-        this.lastResult = result;
-      }
+    // Escuchar resultados ya correlacionados con su captura
+    this.imageAnalysisService.results$.subscribe(event => {
+      console.log(`📊 Resultado recibido [${event.streamId}/${event.requestId}]:`, event.result);
+      this.lastResultEvent = event;
+      this.lastResult = event.result;
+      this.lastResults[event.streamId] = event.result;
     });
   }
 
@@ -59,24 +124,40 @@ export class LiveDetectionComponent implements OnInit, OnDestroy, AfterViewInit
 
   async initializeCamera(): Promise<void> {
     try {
-      console.log('📷 Inicializando preview de cámara...');
-      
-      const videoElement = await this.cameraService.initializeCamera();
-      
-      // Reemplazar el elemento video del template con el elemento configurado
-      if (this.videoElement && videoElement) {
-        const container = this.videoElement.nativeElement.parentNode;
-        if (container) {
-          container.replaceChild(videoElement, this.videoElement.nativeElement);
+      console.log('📷 Inicializando preview de cámaras...');
+
+      // Un placeholder <video> por stream, en el mismo orden que `streams`
+      const placeholders = this.videoElements?.toArray() ?? [];
+
+      for (const [index, stream] of this.streams.entries()) {
+        const videoElement = await this.cameraService.initializeCamera(stream.id);
+        const placeholder = placeholders[index]?.nativeElement;
+
+        // Reemplazar el elemento video del template con el elemento configurado
+        const container = placeholder?.parentNode;
+        if (placeholder && container && videoElement) {
+          container.replaceChild(videoElement, placeholder);
           this.isCameraActive = true;
-          console.log('✅ Cámara inicializada correctamente');
+          console.log(`✅ Cámara ${stream.label} inicializada correctamente`);
         }
       }
+
+      // Con el permiso ya concedido las etiquetas de los dispositivos están disponibles
+      this.refreshCameraList();
     } catch (error) {
       console.error('❌ Error inicializando cámara:', error);
     }
   }
 
+  async selectCamera(streamId: string, deviceId: string): Promise<void> {
+    try {
+      await this.cameraService.switchDevice(streamId, deviceId);
+      this.refreshCameraList();
+    } catch (error) {
+      console.error('❌ Error cambiando de cámara:', error);
+    }
+  }
+
   stopCamera(): void {
     this.cameraService.stopCamera();
     this.isCameraActive = false;
@@ -96,6 +177,43 @@ export class LiveDetectionComponent implements OnInit, OnDestroy, AfterViewInit
     console.log('⏹️ Análisis detenido');
   }
 
+  async saveClip(streamId: string): Promise<void> {
+    this.savingClip[streamId] = true;
+    try {
+      await this.imageAnalysisService.saveManualClip(streamId);
+    } catch (error) {
+      console.error('❌ Error guardando clip manual:', error);
+    } finally {
+      this.savingClip[streamId] = false;
+    }
+  }
+
+  downloadClip(clip: StoredClip): void {
+    this.storageService.downloadClip(clip.id);
+  }
+
+  async exportDetection(clip: StoredClip): Promise<void> {
+    try {
+      await this.storageService.downloadClipWithDetections(clip.id);
+    } catch (error) {
+      console.error('❌ Error exportando detección:', error);
+    }
+  }
+
+  cameraFailureLabel(reason: CameraFailureReason | null): string {
+    switch (reason) {
+      case 'ended': return 'cámara desconectada';
+      case 'muted': return 'sin frames del dispositivo';
+      case 'frozen': return 'imagen congelada';
+      case 'stalled': return 'video sin señal';
+      default: return '';
+    }
+  }
+
+  sceneProfileLabel(name: SceneProfileName = 'day'): string {
+    return this.sceneProfileService.getProfile(name).label;
+  }
+
   getConnectionStatus(): string {
     // Este método se puede usar en el template
     return 'Conectando...';
@@ -109,4 +227,17 @@ export class LiveDetectionComponent implements OnInit, OnDestroy, AfterViewInit
   showCapabilitiesModal(): void {
     this.browserCapabilitiesService.showCapabilitiesModal();
   }
+
+  /**
+   * Actualizar el selector de cámaras; las abiertas se describen con su track
+   * en lugar de sondearlas con getUserMedia
+   */
+  private refreshCameraList(): void {
+    if (this.simulatedCamera) return;
+
+    const openTracks = this.streams
+      .map(stream => this.cameraService.getTrackControls(stream.id)?.capabilities)
+      .filter((capabilities): capabilities is MediaTrackCapabilities => !!capabilities);
+    this.cameraCapabilitiesService.detectBrowserCapabilities(openTracks);
+  }
 }
@@ -0,0 +1,49 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AuthService } from '../../services/auth.service';
+
+@Component({
+  selector: 'app-login-modal',
+  templateUrl: './login-modal.component.html',
+  styleUrls: ['./login-modal.component.scss']
+})
+export class LoginModalComponent implements OnInit, OnDestroy {
+  showModal: boolean = false;
+  username: string = '';
+  password: string = '';
+  isSubmitting: boolean = false;
+  errorMessage: string | null = null;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(private authService: AuthService) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.authService.loginRequired$.subscribe(required => {
+        this.showModal = required;
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  async onSubmit(): Promise<void> {
+    if (!this.username || !this.password || this.isSubmitting) return;
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    try {
+      await this.authService.login(this.username, this.password);
+      this.password = '';
+    } catch (error) {
+      console.error('❌ Error iniciando sesión:', error);
+      this.errorMessage = 'Usuario o contraseña incorrectos';
+    } finally {
+      this.isSubmitting = false;
+    }
+  }
+}
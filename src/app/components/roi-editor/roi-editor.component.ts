@@ -0,0 +1,102 @@
+import { Component, Input, OnInit, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CameraService } from '../../core/abstractions/camera.abstract';
+import { RoiPoint, RoiPolygon, RoiService } from '../../services/roi.service';
+
+/**
+ * Capa SVG sobre el video para dibujar las ROI del dispositivo abierto.
+ * El viewBox usa la resolución del track y "slice" reproduce el object-fit: cover
+ * del video, así los clics caen en las mismas coordenadas que el frame capturado.
+ */
+@Component({
+  selector: 'app-roi-editor',
+  templateUrl: './roi-editor.component.html',
+  styleUrls: ['./roi-editor.component.css']
+})
+export class RoiEditorComponent implements OnInit, OnDestroy {
+  @Input() streamId!: string;
+
+  deviceId: string | null = null;
+  polygons: RoiPolygon[] = [];
+  draft: RoiPoint[] = [];
+  editing = false;
+  frameWidth = 1920;
+  frameHeight = 1080;
+
+  private roiSubscription: Subscription | null = null;
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private cameraService: CameraService,
+    private roiService: RoiService
+  ) {}
+
+  ngOnInit(): void {
+    // Las ROI pertenecen al dispositivo: al cambiar de cámara se cargan las suyas
+    this.subscriptions.push(
+      this.cameraService.activeDevices$.subscribe(devices => this.watchDevice(devices[this.streamId] ?? null))
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.roiSubscription?.unsubscribe();
+  }
+
+  toggleEditing(): void {
+    this.editing = !this.editing;
+    this.draft = [];
+  }
+
+  onCanvasClick(event: MouseEvent): void {
+    if (!this.editing || !this.deviceId) return;
+
+    const svg = event.currentTarget as SVGSVGElement;
+    const matrix = svg.getScreenCTM();
+    if (!matrix) return;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    this.draft = [...this.draft, { x: point.x / this.frameWidth, y: point.y / this.frameHeight }];
+  }
+
+  closePolygon(): void {
+    if (!this.deviceId) return;
+
+    this.roiService.addRoi(this.deviceId, { points: this.draft });
+    this.draft = [];
+  }
+
+  clearRois(): void {
+    if (!this.deviceId) return;
+
+    this.roiService.clearRois(this.deviceId);
+    this.draft = [];
+  }
+
+  /**
+   * Puntos normalizados → atributo "points" del SVG en píxeles del frame
+   */
+  toSvgPoints(points: RoiPoint[]): string {
+    return points.map(point => `${point.x * this.frameWidth},${point.y * this.frameHeight}`).join(' ');
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private watchDevice(deviceId: string | null): void {
+    const settings = this.cameraService.getTrackControls(this.streamId)?.settings;
+    this.frameWidth = settings?.width ?? this.frameWidth;
+    this.frameHeight = settings?.height ?? this.frameHeight;
+
+    if (deviceId === this.deviceId) return;
+
+    this.deviceId = deviceId;
+    this.draft = [];
+    this.roiSubscription?.unsubscribe();
+    this.roiSubscription = deviceId
+      ? this.roiService.rois$(deviceId).subscribe(polygons => this.polygons = polygons)
+      : null;
+    if (!deviceId) {
+      this.polygons = [];
+    }
+  }
+}
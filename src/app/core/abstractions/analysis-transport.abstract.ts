@@ -0,0 +1,58 @@
+import { Observable } from 'rxjs';
+import { AnalysisAck, EncodedImage, PlateDetectionResult } from '../../interfaces/plate-detection.interface';
+
+export type TransportType = 'socket.io' | 'websocket' | 'http';
+
+// Identificación de un frame enviado a análisis
+export interface FrameMetadata {
+  requestId: string;
+  streamId: string; // Cámara/carril que capturó el frame
+  capturedAt: number;
+  replayed: boolean; // true si viene de la cola offline
+}
+
+export interface AnalysisImagePayload extends FrameMetadata {
+  clientId: string;
+  data: Uint8Array;
+  format: string; // MIME real de `data`
+  size: number;
+  encoding: {
+    quality: number;
+    width: number;
+    height: number;
+  };
+}
+
+export abstract class AnalysisTransport {
+  abstract connect(): void;
+  abstract disconnect(): void;
+  abstract isConnected(): boolean;
+  abstract sendImageForAnalysis(image: EncodedImage, frame: FrameMetadata): Promise<AnalysisAck | null>;
+  abstract emitWithAck<T>(event: string, payload: any, timeout?: number, fallback?: T): Promise<T | null>;
+
+  // Observables
+  abstract isConnected$(): Observable<boolean>;
+  abstract handleAnalysisResult(): Observable<PlateDetectionResult | null>;
+  abstract connectionFailed$(): Observable<string>; // Emite al agotar los reintentos
+
+  /**
+   * Construir el payload de 'analyze-image' común a todos los transportes
+   */
+  protected async buildImagePayload(
+    image: EncodedImage,
+    frame: FrameMetadata,
+    clientId: string
+  ): Promise<AnalysisImagePayload> {
+    const data = new Uint8Array(await image.blob.arrayBuffer());
+    const { quality, width, height } = image.encoding;
+
+    return {
+      ...frame,
+      clientId,
+      data,
+      format: image.blob.type || image.encoding.format,
+      size: data.length,
+      encoding: { quality, width, height }
+    };
+  }
+}
@@ -1,15 +1,25 @@
 import { Observable } from 'rxjs';
+import { EncodedImage, FrameQuality } from '../../interfaces/plate-detection.interface';
 
 export interface CameraConfiguration {
+  // Resolución máxima para HD
   width: number;
   height: number;
+  // Configuraciones profesionales
   frameRate: number;
   facingMode: string;
+  // Configuraciones avanzadas (si el dispositivo las soporta)
+  exposureMode?: string;
+  whiteBalanceMode?: string;
+  focusMode?: string;
   iso?: number;
   shutterSpeed?: number;
   brightness?: number;
   contrast?: number;
   saturation?: number;
+  // Ajustes de foto para ImageCapture.takePhoto
+  fillLightMode?: 'auto' | 'off' | 'flash';
+  redEyeReduction?: boolean;
 }
 
 export interface CameraStatistics {
@@ -19,24 +29,111 @@ export interface CameraStatistics {
   hdImagesSaved: number;
   thumbnailsSent: number;
   detectedPlates: number;
+  totalImages: number;
+  captureInterval: number; // ms entre capturas fijado por el scheduler
+  effectiveRate: number; // FPS de captura actual
+  skippedFrames: number; // Capturas omitidas por backpressure
+  motionSkippedFrames: number; // Capturas omitidas por escena sin movimiento
+  qualityRejectedFrames: number; // Ráfagas sin ningún frame nítido y bien expuesto
+  averageQualityScore: number; // Puntuación media (0..1) de los frames enviados
 }
 
+// Valores de controles del track (zoom, exposureTime, focusMode, torch...)
+export type CameraControlValues = Record<string, string | number | boolean>;
+
+export interface CameraTrackControls {
+  capabilities: MediaTrackCapabilities;
+  settings: MediaTrackSettings;
+}
+
+export interface CameraStreamConfig {
+  id: string; // Se envía en cada payload y vuelve en cada resultado
+  label: string;
+}
+
+// Estadísticas de captura de un stream concreto
+export interface StreamCaptureStats {
+  streamId: string;
+  label: string;
+  capturing: boolean;
+  framesCaptured: number;
+  skippedFrames: number;
+  motionSkippedFrames: number;
+  qualityRejectedFrames: number;
+  detectedPlates: number;
+  lastCaptureTime: number;
+}
+
+// Frame del buffer HD codificado a JPEG bajo demanda
+export interface BufferedFrame {
+  captureId: string;
+  offset: number; // Posición respecto a la captura pedida (-1 anterior, 0 ella misma, +1 posterior)
+  capturedAt: number;
+  quality: FrameQuality | null;
+  blob: Blob;
+}
+
+// Clip de video WebM alrededor de un evento (detección o disparo manual)
+export interface EventClip {
+  id: string;
+  streamId: string;
+  blob: Blob;
+  startedAt: number;
+  eventAt: number;
+  endedAt: number;
+}
+
+// Motivo por el que el vigilante dio la cámara por caída
+export type CameraFailureReason = 'ended' | 'muted' | 'frozen' | 'stalled';
+
+// Salud de la cámara de un stream abierto
+export interface CameraHealth {
+  streamId: string;
+  state: 'healthy' | 'recovering' | 'failed'; // failed = se siguen intentando reinicios, espaciados al máximo
+  reason: CameraFailureReason | null; // Último fallo detectado
+  restarts: number; // Reinicios correctos desde que se abrió la cámara
+  attempts: number; // Reinicios seguidos sin que la cámara se mantenga estable
+  nextRetryAt: number | null;
+  lastFailureAt: number | null;
+}
+
+/**
+ * Fuente de frames para el análisis. Los componentes y servicios inyectan
+ * esta abstracción; AppModule decide la implementación (cámara real vía
+ * getUserMedia o cámara simulada que reproduce un video o imágenes).
+ */
 export abstract class CameraService {
-  abstract initializeCamera(): Promise<HTMLVideoElement>;
+  abstract readonly streamConfigs: CameraStreamConfig[];
+  abstract readonly defaultStreamId: string;
+  abstract readonly simulated: boolean; // true = no hay cámara física detrás
+
+  abstract initializeCamera(streamId?: string): Promise<HTMLVideoElement>;
   abstract startCapture(
     videoElement: HTMLVideoElement,
-    onThumbnailReady: (thumbnail: Blob) => void,
-    onHDReady: (hdImage: Blob) => void
+    onThumbnailReady: (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) => void,
+    streamId?: string
   ): void;
-  abstract stopCapture(): void;
-  abstract stopCamera(): void;
+  abstract stopCapture(streamId?: string): void;
+  abstract stopCamera(streamId?: string): void;
+  abstract switchDevice(streamId: string, deviceId: string): Promise<void>;
+  abstract getSelectedDevice(streamId?: string): string | null;
+  abstract takePhoto(streamId?: string): Promise<Blob | null>;
+  abstract getBufferedFrame(captureId: string, streamId?: string): Promise<BufferedFrame | null>;
+  abstract getFramesAround(captureId: string, streamId?: string): Promise<BufferedFrame[]>;
+  abstract recordClip(streamId?: string): Promise<EventClip | null>;
   abstract saveHDImage(blob: Blob, filename?: string): Promise<void>;
+  abstract saveProcessedImage(blob: Blob): Promise<void>;
   abstract getStats(): CameraStatistics;
-  abstract incrementPlateDetection(): void;
+  abstract incrementPlateDetection(streamId?: string): void;
   abstract updateConfig(config: Partial<CameraConfiguration>): void;
   abstract getConfig(): CameraConfiguration;
-  
+  abstract getTrackControls(streamId?: string): CameraTrackControls | null;
+  abstract applyControls(streamId: string, controls: CameraControlValues): Promise<MediaTrackSettings>;
+
   // Observables
   abstract isCapturing$: Observable<boolean>;
   abstract stats$: Observable<CameraStatistics>;
+  abstract streamStats$: Observable<StreamCaptureStats[]>;
+  abstract activeDevices$: Observable<Record<string, string>>; // streamId → deviceId abierto
+  abstract health$: Observable<Record<string, CameraHealth>>; // Solo streams con la cámara abierta
 }
@@ -1,17 +1,105 @@
 // Interfaces para el sistema de detección de placas vehiculares
 
-export interface PlateDetectionResult {
-  type: 'connection_established' | 'thumbnail_result' | 'hd_result' | 'thumbnail_error' | 'hd_error' | 'analysis_result' | 'analysis_error' | 'socket_connected';
-  hasPlate?: boolean;
+// Mensajes de 'analysis-result', discriminados por `type`
+
+// Saludo del servidor al aceptar la conexión
+export interface ConnectionEstablishedMessage {
+  type: 'connection_established' | 'socket_connected';
+  clientId?: string; // Para Socket.IO
+  protocolVersion?: number; // Versión que habla el servidor, si la anuncia
+  timestamp?: number;
+}
+
+// Resultado del análisis de un thumbnail
+export interface DetectionResult {
+  type: 'thumbnail_result' | 'analysis_result';
+  requestId?: string; // ID del frame que originó el resultado (obligatorio desde protocolo v2)
+  streamId?: string; // Stream del frame, devuelto por el servidor
+  hasPlate: boolean;
   requestHD?: boolean;
-  plates?: string[];
+  plates: string[];
+  vehicleColor?: string;
+  vehicleDescription?: string;
+  confidence?: number; // 0-1
+  processingTime?: number;
+  timestamp?: number;
+}
+
+// Resultado del OCR sobre la imagen HD subida por chunks
+export interface HDDetectionResult {
+  type: 'hd_result';
+  requestId?: string;
+  streamId?: string;
+  hasPlate?: boolean;
+  plates: string[];
   vehicleColor?: string;
   vehicleDescription?: string;
   confidence?: number;
   processingTime?: number;
   timestamp?: number;
+}
+
+export interface DetectionErrorResult {
+  type: 'thumbnail_error' | 'hd_error' | 'analysis_error';
+  requestId?: string;
+  streamId?: string;
+  error: string;
+  timestamp?: number;
+}
+
+export type PlateDetectionResult =
+  | ConnectionEstablishedMessage
+  | DetectionResult
+  | HDDetectionResult
+  | DetectionErrorResult;
+
+export type PlateDetectionResultType = PlateDetectionResult['type'];
+
+// Negociación de versión ('protocol-hello') al conectar cada transporte
+export interface ProtocolHello {
+  versions: number[]; // Versiones que entiende el cliente
+  preferred: number;
+}
+
+export interface ProtocolHelloAck {
+  version: number; // Versión elegida por el servidor
+  supported?: number[];
   error?: string;
-  clientId?: string; // Para Socket.IO
+}
+
+// Capacidades de imagen que anuncia el servidor ('image-capabilities')
+export interface ServerImageCapabilities {
+  formats: string[]; // MIME aceptados
+  thumbnailWidth: number;
+  thumbnailHeight: number;
+  maxBytes: number; // Tamaño máximo por thumbnail
+}
+
+// Parámetros con los que se codificó realmente una imagen
+export interface ImageEncoding {
+  format: string; // MIME real del blob (no el solicitado)
+  quality: number; // 0-1
+  width: number;
+  height: number;
+}
+
+export interface EncodedImage {
+  blob: Blob;
+  encoding: ImageEncoding;
+}
+
+export interface AnalysisAck {
+  requestId: string;
+  accepted: boolean; // false si el servidor rechazó el frame
+  error?: string;
+}
+
+export interface AnalysisResultEvent {
+  requestId: string;
+  streamId: string; // Stream al que pertenece el frame (para su overlay)
+  result: DetectionResult;
+  capturedAt: number; // Momento de captura del frame
+  latency: number; // Ida y vuelta desde el envío (ms)
 }
 
 export interface CameraConstraints {
@@ -53,6 +141,50 @@ export interface HDImageChunk {
   totalChunks: number;
   imageId: string;
   data: ArrayBuffer;
+  checksum: string; // SHA-256 (hex) del chunk
+}
+
+// Anuncia una subida HD antes de enviar sus chunks
+export interface HDUploadManifest {
+  type: 'hd_start';
+  imageId: string;
+  requestId: string; // Frame cuyo thumbnail pidió la imagen HD
+  format: string;
+  totalSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  checksum: string; // SHA-256 (hex) de la imagen completa
+}
+
+// Respuesta a 'hd-start' y 'hd-resume': chunks que el servidor ya tiene
+export interface HDUploadStatus {
+  imageId: string;
+  accepted: boolean;
+  receivedChunks: number[];
+  error?: string;
+}
+
+export interface HDChunkAck {
+  imageId: string;
+  chunkIndex: number;
+  ok: boolean; // false si el checksum no coincide
+}
+
+export interface HDCompleteAck {
+  imageId: string;
+  verified: boolean; // Checksum de la imagen reensamblada
+}
+
+// Calidad medida en el frame enviado (sobre la ROI si la hay)
+export interface FrameQuality {
+  sharpness: number; // Varianza del Laplaciano
+  brightness: number; // Luminancia media (0-255)
+  contrast: number; // Desviación estándar de la luminancia
+  clippedShadows: number; // Fracción de píxeles negros
+  clippedHighlights: number; // Fracción de píxeles quemados
+  score: number; // 0..1
+  accepted: boolean;
+  rejectReason?: string;
 }
 
 export interface StoredImage {
@@ -63,4 +195,22 @@ export interface StoredImage {
   detectedPlates?: string[];
   vehicleColor?: string;
   vehicleDescription?: string;
+  source?: string; // Archivo (y segundo del video) de origen en análisis de grabaciones
+  quality?: FrameQuality; // Calidad del frame de la cámara que detectó la placa
+  captureId?: string; // Captura con placa a la que pertenece la imagen
+  frameOffset?: number; // Frame del buffer HD respecto a esa captura (-1, 0, +1); sin valor = foto del sensor
+  clipId?: string; // Clip de video del evento
+}
+
+// Clip de video de un evento, enlazado a las imágenes de sus detecciones
+export interface StoredClip {
+  id: string;
+  streamId: string;
+  timestamp: number; // Instante del evento
+  filename: string;
+  blob: Blob;
+  duration: number; // ms
+  preRoll: number; // ms grabados antes del evento
+  trigger: 'detection' | 'manual';
+  captureIds: string[]; // Detecciones que comparten el clip
 }
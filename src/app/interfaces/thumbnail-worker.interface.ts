@@ -0,0 +1,26 @@
+// Interfaces del pipeline de thumbnails (compartidas con el Web Worker: sin tipos del DOM)
+
+import { EncodedImage, ImageEncoding } from './plate-detection.interface';
+
+// Ajustes del thumbnail según la luz de la escena (perfil de cámara activo)
+export interface ThumbnailPreprocessing {
+  brightness: number; // Filtro CSS brightness(), 1 = sin cambio
+  contrast: number; // Filtro CSS contrast(), 1 = sin cambio
+  unsharpAmount: number; // Enfoque de Pica al reducir
+  unsharpRadius: number;
+}
+
+// Trabajo enviado al worker; el bitmap se transfiere y el worker lo libera
+export interface ThumbnailWorkerRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  encoding: ImageEncoding; // Formato, calidad y tamaño pedidos
+  maxBytes: number;
+  preprocessing: ThumbnailPreprocessing;
+}
+
+export interface ThumbnailWorkerResponse {
+  id: number;
+  thumbnail?: EncodedImage;
+  error?: string;
+}
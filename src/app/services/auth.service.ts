@@ -0,0 +1,227 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { BackendRegistryService } from './backend-registry.service';
+
+// Respuesta de /auth/login y /auth/refresh
+interface AuthResponse {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // segundos
+  clientId: string;
+}
+
+interface AuthSession {
+  token: string;
+  refreshToken: string;
+  expiresAt: number;
+  clientId: string;
+  username: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private session: AuthSession | null = null;
+  private authenticated = new BehaviorSubject<boolean>(false);
+  private loginRequired = new BehaviorSubject<boolean>(false);
+  private refreshTimer: any;
+  private refreshAttempts = 0;
+  private isBrowser: boolean;
+
+  private readonly STORAGE_KEY = 'irix_auth_session';
+  private readonly REFRESH_MARGIN = 60 * 1000; // Renovar 1 minuto antes de expirar
+  private readonly REFRESH_RETRY_DELAY = 2000; // ms; se duplica en cada reintento fallido
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    private http: HttpClient,
+    private backendRegistry: BackendRegistryService
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    if (this.isBrowser) {
+      this.restoreSession();
+    }
+  }
+
+  /**
+   * Iniciar sesión y obtener token para el handshake del socket
+   */
+  async login(username: string, password: string): Promise<void> {
+    const response = await firstValueFrom(
+      this.http.post<AuthResponse>(`${this.backendRegistry.activeUrl}/auth/login`, { username, password })
+    );
+
+    this.startSession(response, username);
+    console.log(`🔐 Sesión iniciada como ${username}`);
+  }
+
+  /**
+   * Cerrar sesión local
+   */
+  logout(): void {
+    this.endSession();
+    this.loginRequired.next(true);
+    console.log('🔓 Sesión cerrada');
+  }
+
+  /**
+   * El servidor rechazó las credenciales: pedir login en lugar de reintentar
+   */
+  handleUnauthorized(reason: string): void {
+    if (!this.session && this.loginRequired.value) return;
+
+    console.warn(`🚫 Sesión no autorizada (${reason}), se requiere iniciar sesión`);
+    this.endSession();
+    this.loginRequired.next(true);
+  }
+
+  /**
+   * Token vigente para autenticar el transporte
+   */
+  get token(): string | null {
+    return this.session?.token ?? null;
+  }
+
+  /**
+   * ID de cliente asignado por el servidor al iniciar sesión
+   */
+  get clientId(): string {
+    return this.session?.clientId ?? '';
+  }
+
+  get username(): string | null {
+    return this.session?.username ?? null;
+  }
+
+  /**
+   * Observable del estado de autenticación
+   */
+  get isAuthenticated$(): Observable<boolean> {
+    return this.authenticated.asObservable();
+  }
+
+  /**
+   * Observable que indica si hay que mostrar el login
+   */
+  get loginRequired$(): Observable<boolean> {
+    return this.loginRequired.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private startSession(response: AuthResponse, username: string): void {
+    this.session = {
+      token: response.token,
+      refreshToken: response.refreshToken,
+      expiresAt: Date.now() + response.expiresIn * 1000,
+      clientId: response.clientId,
+      username
+    };
+
+    this.persistSession();
+    this.scheduleRefresh();
+    this.loginRequired.next(false);
+    this.authenticated.next(true);
+  }
+
+  private endSession(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshAttempts = 0;
+    this.session = null;
+    if (this.isBrowser) {
+      sessionStorage.removeItem(this.STORAGE_KEY);
+    }
+    this.authenticated.next(false);
+  }
+
+  /**
+   * Programar la renovación del token antes de que expire
+   */
+  private scheduleRefresh(): void {
+    clearTimeout(this.refreshTimer);
+    if (!this.session) return;
+
+    const delay = Math.max(0, this.session.expiresAt - Date.now() - this.REFRESH_MARGIN);
+    this.refreshTimer = setTimeout(() => this.refreshToken(), delay);
+  }
+
+  private async refreshToken(): Promise<void> {
+    if (!this.session) return;
+
+    try {
+      const response = await firstValueFrom(
+        this.http.post<AuthResponse>(`${this.backendRegistry.activeUrl}/auth/refresh`, {
+          refreshToken: this.session.refreshToken
+        })
+      );
+
+      this.session = {
+        ...this.session,
+        token: response.token,
+        refreshToken: response.refreshToken,
+        expiresAt: Date.now() + response.expiresIn * 1000
+      };
+      this.refreshAttempts = 0;
+      this.persistSession();
+      this.scheduleRefresh();
+      console.log('🔄 Token renovado');
+    } catch (error) {
+      console.error('❌ Error renovando token:', error);
+
+      if (error instanceof HttpErrorResponse && (error.status === 401 || error.status === 403)) {
+        this.handleUnauthorized('no se pudo renovar el token');
+      } else {
+        this.retryRefresh();
+      }
+    }
+  }
+
+  /**
+   * Fallo transitorio (red caída, 5xx): reintentar con espera exponencial
+   * mientras el token siga vigente
+   */
+  private retryRefresh(): void {
+    if (!this.session) return;
+
+    const delay = this.REFRESH_RETRY_DELAY * 2 ** this.refreshAttempts;
+    if (Date.now() + delay >= this.session.expiresAt) {
+      this.handleUnauthorized('el token expiró sin poder renovarlo');
+      return;
+    }
+
+    this.refreshAttempts++;
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refreshToken(), delay);
+    console.warn(`🔁 Reintentando renovar el token en ${(delay / 1000).toFixed(0)}s (intento ${this.refreshAttempts})`);
+  }
+
+  /**
+   * Recuperar la sesión de la pestaña si el token sigue vigente
+   */
+  private restoreSession(): void {
+    try {
+      const stored = sessionStorage.getItem(this.STORAGE_KEY);
+      const session: AuthSession | null = stored ? JSON.parse(stored) : null;
+
+      if (session && session.expiresAt > Date.now()) {
+        this.session = session;
+        this.scheduleRefresh();
+        this.authenticated.next(true);
+        console.log(`🔐 Sesión recuperada para ${session.username}`);
+      } else {
+        this.loginRequired.next(true);
+      }
+    } catch (error) {
+      console.error('❌ Error recuperando sesión:', error);
+      this.loginRequired.next(true);
+    }
+  }
+
+  private persistSession(): void {
+    if (!this.isBrowser || !this.session) return;
+    sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.session));
+  }
+}
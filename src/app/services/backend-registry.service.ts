@@ -0,0 +1,195 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, firstValueFrom, timeout } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { environment } from '../../environments/environment';
+
+export interface BackendEndpoint {
+  name: string;
+  url: string;
+  priority: number; // 1 = primario; menor número, mayor prioridad
+}
+
+export interface BackendStatus extends BackendEndpoint {
+  healthy: boolean;
+  latency: number | null; // ms de la última sonda exitosa
+  lastChecked: number | null;
+  consecutiveSuccesses: number;
+}
+
+export interface BackendSwitchEvent {
+  from: string;
+  to: string;
+  reason: string;
+  timestamp: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class BackendRegistryService {
+  private backends: BackendStatus[];
+  private active: BehaviorSubject<BackendStatus>;
+  private statuses: BehaviorSubject<BackendStatus[]>;
+  private lastSwitch = new BehaviorSubject<BackendSwitchEvent | null>(null);
+  private probeTimer: any;
+  private isBrowser: boolean;
+
+  private readonly PROBE_INTERVAL = 15000; // Sonda de salud cada 15s
+  private readonly PROBE_TIMEOUT = 5000;
+  private readonly FAILBACK_THRESHOLD = 2; // Sondas OK seguidas antes de volver al primario
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    private http: HttpClient
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+
+    this.backends = [...environment.backends]
+      .sort((a, b) => a.priority - b.priority)
+      .map(backend => ({
+        ...backend,
+        healthy: true, // Se asume sano hasta la primera sonda
+        latency: null,
+        lastChecked: null,
+        consecutiveSuccesses: 0
+      }));
+    this.active = new BehaviorSubject<BackendStatus>(this.backends[0]);
+    this.statuses = new BehaviorSubject<BackendStatus[]>(this.backends);
+
+    if (this.isBrowser) {
+      this.startProbing();
+    }
+  }
+
+  /**
+   * URL del backend activo
+   */
+  get activeUrl(): string {
+    return this.active.value.url;
+  }
+
+  /**
+   * Reportar que el backend activo no es alcanzable por ningún transporte.
+   * Devuelve true si se cambió a otro backend.
+   */
+  reportFailure(reason: string): boolean {
+    const current = this.active.value;
+    current.healthy = false;
+    current.consecutiveSuccesses = 0;
+    this.publishStatuses();
+
+    const next = this.backends.find(backend => backend !== current && backend.healthy);
+    if (!next) {
+      console.error(`❌ Ningún backend sano disponible (${current.name}: ${reason})`);
+      return false;
+    }
+
+    this.switchTo(next, `failover: ${reason}`);
+    return true;
+  }
+
+  /**
+   * Sondear ahora todos los backends
+   */
+  async probeAll(): Promise<void> {
+    await Promise.all(this.backends.map(backend => this.probe(backend)));
+    this.publishStatuses();
+    this.evaluateFailback();
+  }
+
+  /**
+   * Detener las sondas periódicas
+   */
+  stopProbing(): void {
+    clearInterval(this.probeTimer);
+    this.probeTimer = null;
+  }
+
+  /**
+   * Observable del backend activo
+   */
+  get activeBackend$(): Observable<BackendStatus> {
+    return this.active.asObservable();
+  }
+
+  /**
+   * Observable con el estado de salud de todos los backends
+   */
+  get backends$(): Observable<BackendStatus[]> {
+    return this.statuses.asObservable();
+  }
+
+  /**
+   * Observable del último cambio de backend y su motivo
+   */
+  get lastSwitch$(): Observable<BackendSwitchEvent | null> {
+    return this.lastSwitch.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private startProbing(): void {
+    this.probeAll();
+    this.probeTimer = setInterval(() => this.probeAll(), this.PROBE_INTERVAL);
+  }
+
+  private async probe(backend: BackendStatus): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      await firstValueFrom(this.http.get(`${backend.url}/health`).pipe(timeout(this.PROBE_TIMEOUT)));
+      backend.healthy = true;
+      backend.latency = Date.now() - startTime;
+      backend.consecutiveSuccesses++;
+    } catch {
+      if (backend.healthy) {
+        console.warn(`⚠️ Backend ${backend.name} no responde a la sonda de salud`);
+      }
+      backend.healthy = false;
+      backend.latency = null;
+      backend.consecutiveSuccesses = 0;
+    }
+
+    backend.lastChecked = Date.now();
+  }
+
+  /**
+   * Volver a un backend de mayor prioridad cuando se haya recuperado
+   */
+  private evaluateFailback(): void {
+    const current = this.active.value;
+    const preferred = this.backends.find(backend =>
+      backend.priority < current.priority &&
+      backend.healthy &&
+      backend.consecutiveSuccesses >= this.FAILBACK_THRESHOLD
+    );
+
+    if (preferred) {
+      this.switchTo(preferred, `failback: ${preferred.name} recuperado`);
+    } else if (!current.healthy) {
+      // El activo cayó entre sondas y hay otro sano
+      const next = this.backends.find(backend => backend.healthy);
+      if (next) {
+        this.switchTo(next, `failover: ${current.name} no pasa la sonda de salud`);
+      }
+    }
+  }
+
+  private switchTo(backend: BackendStatus, reason: string): void {
+    const event: BackendSwitchEvent = {
+      from: this.active.value.name,
+      to: backend.name,
+      reason,
+      timestamp: Date.now()
+    };
+
+    console.warn(`🔀 Backend: ${event.from} → ${event.to} (${reason})`);
+    this.lastSwitch.next(event);
+    this.active.next(backend);
+  }
+
+  private publishStatuses(): void {
+    this.statuses.next(this.backends.map(backend => ({ ...backend })));
+  }
+}
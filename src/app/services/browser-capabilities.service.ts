@@ -7,6 +7,7 @@ export interface BrowserCapabilities {
     lossy: boolean;
     lossless: boolean;
     animation: boolean;
+    encode: boolean; // canvas.toBlob produce WebP (Safari decodifica pero no codifica)
     method: string;
   };
   canvas: {
@@ -74,6 +75,7 @@ export class BrowserCapabilitiesService {
       lossy: false,
       lossless: false,
       animation: false,
+      encode: false,
       method: 'none'
     };
 
@@ -87,9 +89,9 @@ export class BrowserCapabilitiesService {
     webP.animation = await this.testWebPAnimation();
     
     // Test 4: Canvas toBlob
-    const canvasSupport = await this.testWebPCanvas();
+    webP.encode = await this.testWebPCanvas();
     
-    webP.supported = webP.lossy || webP.lossless || canvasSupport;
+    webP.supported = webP.lossy || webP.lossless || webP.encode;
     
     if (webP.supported) {
       webP.method = webP.lossy ? 'image-test' : 'canvas-test';
@@ -282,6 +284,15 @@ export class BrowserCapabilitiesService {
     return 'image/jpeg';
   }
 
+  /**
+   * Formatos que el navegador sabe codificar, en orden de preferencia
+   */
+  getSupportedImageFormats(): string[] {
+    const caps = this.capabilities.value;
+    const formats = caps?.webP.encode ? ['image/webp'] : [];
+    return [...formats, 'image/jpeg', 'image/png'];
+  }
+
   /**
    * Obtener calidad óptima para el formato
    */
@@ -1,4 +1,6 @@
-import { Injectable } from '@angular/core';
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
 
 export interface CameraCapabilities {
   deviceId: string;
@@ -21,39 +23,86 @@ export interface Resolution {
 export class CameraCapabilitiesService {
   private availableDevices: MediaDeviceInfo[] = [];
   private browserCapabilities: any = {};
-
-  constructor() {
-    this.initializeBrowserCapabilities();
+  private cameras = new BehaviorSubject<CameraCapabilities[]>([]);
+  private probed = new Map<string, CameraCapabilities>(); // deviceId → capacidades ya detectadas
+  private openTracks: MediaTrackCapabilities[] = []; // Cámaras abiertas en la última detección
+  private detecting = new BehaviorSubject<boolean>(false);
+  private isBrowser: boolean;
+
+  private readonly FRAME_RATE_CANDIDATES = [60, 30, 24, 15];
+
+  constructor(@Inject(PLATFORM_ID) private platformId: Object) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    if (this.isBrowser) {
+      this.initializeBrowserCapabilities();
+
+      // Cámaras USB conectadas o desconectadas en caliente
+      navigator.mediaDevices?.addEventListener?.('devicechange', () => {
+        if (this.cameras.value.length > 0) {
+          this.detectBrowserCapabilities();
+        }
+      });
+    }
   }
 
   /**
-   * Detectar capacidades del navegador
+   * Detectar capacidades de las cámaras. Las abiertas (`openTracks`) se describen
+   * con getCapabilities() de su track: volver a abrirlas con getUserMedia corta o
+   * reconfigura el stream en vivo en móviles y drivers de acceso exclusivo.
+   * Las inactivas se sondean una sola vez y el resultado se cachea.
    */
-  async detectBrowserCapabilities(): Promise<CameraCapabilities[]> {
+  async detectBrowserCapabilities(openTracks: MediaTrackCapabilities[] = this.openTracks): Promise<CameraCapabilities[]> {
+    if (!this.isBrowser) {
+      return [];
+    }
+
     console.log('🔍 Detectando capacidades de cámara...');
+    this.detecting.next(true);
 
     try {
       // Obtener lista de dispositivos de cámara
       await this.enumerateDevices();
-      
+      this.openTracks = openTracks;
+
       const capabilities: CameraCapabilities[] = [];
 
       for (const device of this.availableDevices) {
         if (device.kind === 'videoinput') {
-          const capability = await this.analyzeDeviceCapabilities(device);
+          const track = openTracks.find(open => open.deviceId === device.deviceId);
+          const capability = track
+            ? this.fromTrackCapabilities(device, track)
+            : this.probed.get(device.deviceId) ?? await this.analyzeDeviceCapabilities(device);
+          this.probed.set(device.deviceId, capability);
           capabilities.push(capability);
         }
       }
 
       console.log(`✅ ${capabilities.length} cámaras detectadas:`, capabilities);
+      this.cameras.next(capabilities);
       return capabilities;
 
     } catch (error) {
       console.error('❌ Error detectando capacidades:', error);
       return [];
+    } finally {
+      this.detecting.next(false);
     }
   }
 
+  /**
+   * Observable de las cámaras detectadas en la última enumeración
+   */
+  get cameras$(): Observable<CameraCapabilities[]> {
+    return this.cameras.asObservable();
+  }
+
+  /**
+   * Observable que indica si hay una detección en curso
+   */
+  get detecting$(): Observable<boolean> {
+    return this.detecting.asObservable();
+  }
+
   /**
    * Obtener resoluciones soportadas para un dispositivo
    */
@@ -96,6 +145,21 @@ export class CameraCapabilitiesService {
     return 30; // Fallback
   }
 
+  /**
+   * Todos los frame rates de la lista que el dispositivo acepta
+   */
+  async getSupportedFrameRates(deviceId: string, frameRates: number[]): Promise<number[]> {
+    const supported: number[] = [];
+
+    for (const rate of [...frameRates].sort((a, b) => b - a)) {
+      if (await this.testFrameRate(deviceId, rate)) {
+        supported.push(rate);
+      }
+    }
+
+    return supported.length > 0 ? supported : [30];
+  }
+
   /**
    * Validar si focusMode es soportado
    */
@@ -164,13 +228,34 @@ export class CameraCapabilitiesService {
     const maxResolution = resolutions.length > 0 ? resolutions[0] : { width: 640, height: 480, megapixels: 0.3 };
     
     // Testear frame rates comunes
-    const supportedFrameRate = await this.testFrameRateSupport(device.deviceId, [60, 30, 24, 15]);
+    const supportedFrameRates = await this.getSupportedFrameRates(device.deviceId, this.FRAME_RATE_CANDIDATES);
 
     return {
       deviceId: device.deviceId,
       label: device.label || 'Cámara desconocida',
       maxResolution,
-      supportedFrameRates: [supportedFrameRate],
+      supportedFrameRates,
+      supportsFocusMode: this.validateFocusMode(),
+      facingMode: this.detectFacingMode(device.label)
+    };
+  }
+
+  /**
+   * Capacidades de una cámara abierta a partir de los rangos que anuncia su track
+   */
+  private fromTrackCapabilities(device: MediaDeviceInfo, track: MediaTrackCapabilities): CameraCapabilities {
+    const width = track.width?.max ?? 640;
+    const height = track.height?.max ?? 480;
+    const maxFrameRate = track.frameRate?.max;
+    const supportedFrameRates = maxFrameRate
+      ? this.FRAME_RATE_CANDIDATES.filter(rate => rate <= maxFrameRate)
+      : [];
+
+    return {
+      deviceId: device.deviceId,
+      label: device.label || 'Cámara desconocida',
+      maxResolution: { width, height, megapixels: Math.round(width * height / 100000) / 10 },
+      supportedFrameRates: supportedFrameRates.length > 0 ? supportedFrameRates : [30],
       supportsFocusMode: this.validateFocusMode(),
       facingMode: this.detectFacingMode(device.label)
     };
@@ -0,0 +1,165 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { CameraControlValues, CameraTrackControls } from '../core/abstractions/camera.abstract';
+
+export type CameraControlKind = 'range' | 'mode' | 'toggle';
+
+interface CameraControlDefinition {
+  key: string; // Nombre de la constraint en MediaTrackCapabilities
+  label: string;
+  kind: CameraControlKind;
+}
+
+// Control presente en la cámara, con su rango y valor actual
+export interface CameraControl extends CameraControlDefinition {
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+  value: string | number | boolean | null;
+}
+
+// Presets guardados de un sitio: nombre → valores
+export type CameraPresets = Record<string, CameraControlValues>;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CameraControlsService {
+  // Orden del panel; solo se muestran los que la cámara anuncia
+  private readonly CONTROL_DEFINITIONS: CameraControlDefinition[] = [
+    { key: 'exposureMode', label: 'Modo de exposición', kind: 'mode' },
+    { key: 'exposureTime', label: 'Tiempo de exposición (×100µs)', kind: 'range' },
+    { key: 'exposureCompensation', label: 'Compensación de exposición', kind: 'range' },
+    { key: 'iso', label: 'ISO', kind: 'range' },
+    { key: 'focusMode', label: 'Modo de foco', kind: 'mode' },
+    { key: 'focusDistance', label: 'Distancia de foco', kind: 'range' },
+    { key: 'zoom', label: 'Zoom', kind: 'range' },
+    { key: 'whiteBalanceMode', label: 'Balance de blancos', kind: 'mode' },
+    { key: 'colorTemperature', label: 'Temperatura de color (K)', kind: 'range' },
+    { key: 'brightness', label: 'Brillo', kind: 'range' },
+    { key: 'contrast', label: 'Contraste', kind: 'range' },
+    { key: 'saturation', label: 'Saturación', kind: 'range' },
+    { key: 'sharpness', label: 'Nitidez', kind: 'range' },
+    { key: 'torch', label: 'Linterna', kind: 'toggle' }
+  ];
+  private readonly PRESETS_KEY = 'irix_camera_presets';
+  private readonly SITE_KEY = 'irix_camera_site';
+  private readonly DEFAULT_SITE = 'Principal';
+
+  private site: BehaviorSubject<string>;
+  private presets: BehaviorSubject<CameraPresets>;
+  private isBrowser: boolean;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: Object) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+
+    const site = this.read<string>(this.SITE_KEY) ?? this.DEFAULT_SITE;
+    this.site = new BehaviorSubject<string>(site);
+    this.presets = new BehaviorSubject<CameraPresets>(this.loadAllPresets()[site] ?? {});
+  }
+
+  /**
+   * Controles que ofrece el track, con sus rangos reales y el valor actual
+   */
+  describe(track: CameraTrackControls): CameraControl[] {
+    const capabilities = track.capabilities as Record<string, any>;
+    const settings = track.settings as Record<string, any>;
+
+    return this.CONTROL_DEFINITIONS
+      .filter(definition => capabilities[definition.key] !== undefined)
+      .map((definition): CameraControl => {
+        const capability = capabilities[definition.key];
+        const value = settings[definition.key] ?? null;
+
+        switch (definition.kind) {
+          case 'range':
+            return { ...definition, min: capability.min, max: capability.max, step: capability.step || undefined, value };
+          case 'mode':
+            return { ...definition, options: capability as string[], value };
+          case 'toggle':
+            return { ...definition, value: value ?? false };
+        }
+      })
+      // Rangos degenerados (min = max) no se pueden ajustar
+      .filter(control => control.kind !== 'range' || control.min !== control.max);
+  }
+
+  /**
+   * Sitio activo: cada sitio tiene su propio juego de presets
+   */
+  setSite(site: string): void {
+    const name = site.trim() || this.DEFAULT_SITE;
+    this.site.next(name);
+    this.presets.next(this.loadAllPresets()[name] ?? {});
+    this.write(this.SITE_KEY, name);
+    console.log(`📍 Sitio activo para presets de cámara: ${name}`);
+  }
+
+  savePreset(name: string, values: CameraControlValues): void {
+    this.storePresets({ ...this.presets.value, [name]: { ...values } });
+    console.log(`💾 Preset "${name}" guardado para ${this.site.value}:`, values);
+  }
+
+  deletePreset(name: string): void {
+    const { [name]: _removed, ...rest } = this.presets.value;
+    this.storePresets(rest);
+    console.log(`🗑️ Preset "${name}" eliminado de ${this.site.value}`);
+  }
+
+  getPreset(name: string): CameraControlValues | null {
+    return this.presets.value[name] ?? null;
+  }
+
+  /**
+   * Observable del sitio activo
+   */
+  get site$(): Observable<string> {
+    return this.site.asObservable();
+  }
+
+  /**
+   * Observable de los presets del sitio activo
+   */
+  get presets$(): Observable<CameraPresets> {
+    return this.presets.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private storePresets(presets: CameraPresets): void {
+    this.presets.next(presets);
+    this.write(this.PRESETS_KEY, { ...this.loadAllPresets(), [this.site.value]: presets });
+  }
+
+  private loadAllPresets(): Record<string, CameraPresets> {
+    return this.read<Record<string, CameraPresets>>(this.PRESETS_KEY) ?? {};
+  }
+
+  private read<T>(key: string): T | null {
+    if (!this.isBrowser) {
+      return null;
+    }
+
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error(`❌ Error leyendo ${key}:`, error);
+      return null;
+    }
+  }
+
+  private write(key: string, value: unknown): void {
+    if (!this.isBrowser) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`❌ Error guardando ${key}:`, error);
+    }
+  }
+}
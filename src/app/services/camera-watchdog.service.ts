@@ -0,0 +1,171 @@
+import { Injectable } from '@angular/core';
+import { CameraFailureReason } from '../core/abstractions/camera.abstract';
+import { FrameSamplerService } from './frame-sampler.service';
+import { environment } from '../../environments/environment';
+
+// Vigilancia de la cámara de un stream
+interface WatchedStream {
+  track: MediaStreamTrack;
+  video: HTMLVideoElement;
+  onFailure: (reason: CameraFailureReason) => void;
+  checkFrozen: boolean;
+  checkTimer: any;
+  muteTimer: any;
+  watchedAt: number;
+  lastFrame: Uint8Array | null; // Firma del último frame comprobado
+  frameChangedAt: number; // Última vez que la firma cambió
+  videoSeenAt: number; // Última vez que el video tenía dimensiones
+  listeners: { ended: () => void; mute: () => void; unmute: () => void };
+}
+
+/**
+ * Vigilante de salud de la cámara. Un track que termina (USB desconectado,
+ * permiso revocado, suspensión del sistema) o una imagen congelada no dan error:
+ * la captura seguiría enviando el mismo frame para siempre. Se vigilan los
+ * eventos del track, la firma de frames consecutivos y las dimensiones del video;
+ * al primer fallo se avisa una sola vez y el dueño del stream decide cómo reiniciar.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CameraWatchdogService {
+  private readonly config = environment.watchdog;
+  private readonly SIGNATURE_WIDTH = 32;
+
+  private watched = new Map<string, WatchedStream>();
+
+  constructor(private frameSampler: FrameSamplerService) {}
+
+  /**
+   * Empezar a vigilar el track de video de un stream (reemplaza la vigilancia anterior).
+   * Con `checkFrozen` en false no se comparan frames (fuentes simuladas con imagen fija).
+   */
+  watch(
+    streamId: string,
+    mediaStream: MediaStream,
+    video: HTMLVideoElement,
+    onFailure: (reason: CameraFailureReason) => void,
+    checkFrozen: boolean = true
+  ): void {
+    this.unwatch(streamId);
+
+    const track = mediaStream.getVideoTracks()[0];
+    if (!this.config.enabled || !track) {
+      return;
+    }
+
+    const now = Date.now();
+    const watched: WatchedStream = {
+      track,
+      video,
+      onFailure,
+      checkFrozen,
+      checkTimer: null,
+      muteTimer: null,
+      watchedAt: now,
+      lastFrame: null,
+      frameChangedAt: now,
+      videoSeenAt: now,
+      listeners: {
+        ended: () => this.fail(streamId, watched, 'ended'),
+        // Un mute breve es normal (p.ej. cambio de exposición): solo falla si se prolonga
+        mute: () => {
+          clearTimeout(watched.muteTimer);
+          watched.muteTimer = setTimeout(() => this.fail(streamId, watched, 'muted'), this.config.muteTimeout);
+        },
+        unmute: () => clearTimeout(watched.muteTimer)
+      }
+    };
+
+    track.addEventListener('ended', watched.listeners.ended);
+    track.addEventListener('mute', watched.listeners.mute);
+    track.addEventListener('unmute', watched.listeners.unmute);
+    watched.checkTimer = setInterval(() => this.check(streamId, watched), this.config.checkInterval);
+    this.watched.set(streamId, watched);
+
+    if (track.readyState === 'ended') {
+      this.fail(streamId, watched, 'ended');
+    } else if (track.muted) {
+      watched.listeners.mute();
+    }
+  }
+
+  /**
+   * Dejar de vigilar un stream (al detener o reemplazar su cámara)
+   */
+  unwatch(streamId: string): void {
+    const watched = this.watched.get(streamId);
+    if (!watched) return;
+
+    clearInterval(watched.checkTimer);
+    clearTimeout(watched.muteTimer);
+    watched.track.removeEventListener('ended', watched.listeners.ended);
+    watched.track.removeEventListener('mute', watched.listeners.mute);
+    watched.track.removeEventListener('unmute', watched.listeners.unmute);
+    this.watched.delete(streamId);
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Comprobación periódica: video sin dimensiones o frames idénticos demasiado tiempo
+   */
+  private check(streamId: string, watched: WatchedStream): void {
+    const now = Date.now();
+    const { video } = watched;
+
+    if (video.videoWidth > 0 && video.videoHeight > 0) {
+      watched.videoSeenAt = now;
+    } else if (now - watched.videoSeenAt > this.config.stallTimeout) {
+      this.fail(streamId, watched, 'stalled');
+      return;
+    }
+
+    if (!watched.checkFrozen || video.videoWidth === 0) {
+      return;
+    }
+
+    // Un sensor real siempre tiene algo de ruido: dos frames idénticos son el mismo frame
+    const signature = this.signature(video);
+    if (!signature) return;
+
+    if (!watched.lastFrame || !this.equal(signature, watched.lastFrame)) {
+      watched.frameChangedAt = now;
+    } else if (now - watched.frameChangedAt > this.config.frozenTimeout) {
+      this.fail(streamId, watched, 'frozen');
+      return;
+    }
+    watched.lastFrame = signature;
+  }
+
+  /**
+   * Avisar del fallo una sola vez y dejar de vigilar
+   */
+  private fail(streamId: string, watched: WatchedStream, reason: CameraFailureReason): void {
+    if (this.watched.get(streamId) !== watched) {
+      return;
+    }
+
+    this.unwatch(streamId);
+    console.warn(`🩺 Cámara [${streamId}] sin señal válida (${reason}) tras ${((Date.now() - watched.watchedAt) / 1000).toFixed(0)}s`);
+    watched.onFailure(reason);
+  }
+
+  /**
+   * Frame reducido en RGB, sin suavizado para no promediar el ruido del sensor
+   */
+  private signature(video: HTMLVideoElement): Uint8Array | null {
+    const width = this.SIGNATURE_WIDTH;
+    const height = Math.max(1, Math.round(width * video.videoHeight / video.videoWidth));
+    const data = this.frameSampler.rgba(video, width, height, null, false);
+    return data ? new Uint8Array(data.buffer) : null;
+  }
+
+  private equal(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+}
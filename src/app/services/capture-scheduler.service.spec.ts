@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { CaptureSchedulerService } from './capture-scheduler.service';
+
+describe('CaptureSchedulerService', () => {
+  let scheduler: CaptureSchedulerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    scheduler = TestBed.inject(CaptureSchedulerService);
+    scheduler.configure({ minInterval: 250, maxInterval: 3000, initialInterval: 500, maxInFlight: 2 });
+    scheduler.reset();
+  });
+
+  it('debería arrancar en el intervalo inicial', () => {
+    expect(scheduler.currentInterval).toBe(500);
+    expect(scheduler.effectiveRate).toBe(2);
+    expect(scheduler.averageRtt).toBe(0);
+  });
+
+  it('debería suavizar la latencia (EWMA) y acercar el intervalo a RTT / maxInFlight', () => {
+    scheduler.requestSent('a');
+    scheduler.requestCompleted('a', 1000);
+    expect(scheduler.averageRtt).toBe(1000); // Primera muestra: sin suavizar
+    expect(scheduler.currentInterval).toBeCloseTo(500); // 500 * 0.8 + (1000 / 2) * 0.2
+
+    scheduler.requestSent('b');
+    scheduler.requestCompleted('b', 2000);
+    expect(scheduler.averageRtt).toBeCloseTo(1200); // 1000 * 0.8 + 2000 * 0.2
+    expect(scheduler.currentInterval).toBeCloseTo(520); // 500 * 0.8 + (1200 / 2) * 0.2
+  });
+
+  it('debería ignorar respuestas de peticiones que no estaban en vuelo', () => {
+    scheduler.requestCompleted('desconocida', 5000);
+    scheduler.requestFailed('desconocida');
+
+    expect(scheduler.averageRtt).toBe(0);
+    expect(scheduler.currentInterval).toBe(500);
+  });
+
+  it('debería duplicar el intervalo ante un fallo sin pasar de maxInterval', () => {
+    ['a', 'b', 'c', 'd'].forEach(id => scheduler.requestSent(id));
+
+    scheduler.requestFailed('a');
+    expect(scheduler.currentInterval).toBe(1000);
+    scheduler.requestFailed('b');
+    expect(scheduler.currentInterval).toBe(2000);
+    scheduler.requestFailed('c');
+    scheduler.requestFailed('d');
+    expect(scheduler.currentInterval).toBe(3000);
+  });
+
+  it('debería limitar las peticiones en vuelo a maxInFlight', () => {
+    scheduler.requestSent('a');
+    expect(scheduler.canDispatch()).toBeTrue();
+    scheduler.requestSent('b');
+    expect(scheduler.canDispatch()).toBeFalse();
+
+    scheduler.requestCompleted('a', 300);
+    expect(scheduler.canDispatch()).toBeTrue();
+  });
+
+  it('debería contar los frames reenviados aparte de la captura en vivo', () => {
+    scheduler.requestSent('offline', true);
+    expect(scheduler.canReplay()).toBeFalse(); // maxInFlight - 1 = 1 hueco para reenvíos
+    expect(scheduler.canDispatch()).toBeTrue();
+
+    scheduler.requestCompleted('offline', 400);
+    expect(scheduler.canReplay()).toBeTrue();
+  });
+
+  it('debería volver al estado inicial con reset()', () => {
+    scheduler.requestSent('a');
+    scheduler.requestSent('b');
+    scheduler.requestFailed('a');
+    expect(scheduler.canDispatch()).toBeTrue();
+    scheduler.requestSent('c');
+
+    scheduler.reset();
+
+    expect(scheduler.currentInterval).toBe(500);
+    expect(scheduler.averageRtt).toBe(0);
+    expect(scheduler.canDispatch()).toBeTrue();
+    scheduler.requestCompleted('b', 9000); // Ya no está en vuelo tras el reset
+    expect(scheduler.averageRtt).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../environments/environment';
+
+export interface CaptureSchedulerConfig {
+  minInterval: number; // ms - ritmo más rápido permitido
+  maxInterval: number; // ms - ritmo más lento permitido
+  initialInterval: number; // ms - ritmo al iniciar la captura
+  maxInFlight: number; // Peticiones sin respuesta antes de frenar la captura
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CaptureSchedulerService {
+  private config: CaptureSchedulerConfig = { ...environment.capture };
+  private interval = this.config.initialInterval;
+  private smoothedRtt = 0;
+  private inFlight = new Set<string>();
+  private replayInFlight = new Set<string>(); // Frames de la cola offline: no ocupan huecos de la captura en vivo
+
+  private readonly RTT_SMOOTHING = 0.2; // Peso de cada nueva muestra (EWMA)
+  private readonly BACKOFF_FACTOR = 2; // Frenado ante timeouts o rechazos
+
+  /**
+   * Reiniciar el estado al comenzar una nueva sesión de captura
+   */
+  reset(): void {
+    this.interval = this.config.initialInterval;
+    this.smoothedRtt = 0;
+    this.inFlight.clear();
+    this.replayInFlight.clear();
+  }
+
+  /**
+   * Actualizar límites del scheduler
+   */
+  configure(config: Partial<CaptureSchedulerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.interval = this.clamp(this.interval);
+    console.log('⚙️ Scheduler de captura actualizado:', this.config);
+  }
+
+  /**
+   * Indica si se puede enviar otro frame sin superar el límite en vuelo
+   */
+  canDispatch(): boolean {
+    return this.inFlight.size < this.config.maxInFlight;
+  }
+
+  /**
+   * Indica si se puede reenviar otro frame de la cola offline. El reenvío usa
+   * como mucho maxInFlight - 1 peticiones para no saturar al backend mientras
+   * la captura en vivo sigue enviando
+   */
+  canReplay(): boolean {
+    return this.replayInFlight.size < Math.max(1, this.config.maxInFlight - 1);
+  }
+
+  /**
+   * Registrar frame enviado (los reenviados se cuentan aparte)
+   */
+  requestSent(requestId: string, replayed: boolean = false): void {
+    (replayed ? this.replayInFlight : this.inFlight).add(requestId);
+  }
+
+  /**
+   * Registrar respuesta recibida y ajustar el ritmo según la latencia
+   */
+  requestCompleted(requestId: string, rtt: number): void {
+    if (!this.release(requestId)) return;
+
+    this.smoothedRtt = this.smoothedRtt === 0
+      ? rtt
+      : this.smoothedRtt * (1 - this.RTT_SMOOTHING) + rtt * this.RTT_SMOOTHING;
+
+    // Con N peticiones en paralelo el backend absorbe N frames por RTT
+    const target = this.smoothedRtt / this.config.maxInFlight;
+    this.interval = this.clamp(this.interval * (1 - this.RTT_SMOOTHING) + target * this.RTT_SMOOTHING);
+  }
+
+  /**
+   * Registrar petición perdida (timeout o rechazo) y frenar la captura
+   */
+  requestFailed(requestId: string): void {
+    if (!this.release(requestId)) return;
+
+    this.interval = this.clamp(this.interval * this.BACKOFF_FACTOR);
+    console.warn(`🐢 Captura ralentizada a ${this.interval.toFixed(0)}ms por petición fallida`);
+  }
+
+  /**
+   * Intervalo actual entre capturas (ms)
+   */
+  get currentInterval(): number {
+    return this.interval;
+  }
+
+  /**
+   * Ritmo efectivo de captura (frames por segundo)
+   */
+  get effectiveRate(): number {
+    return 1000 / this.interval;
+  }
+
+  /**
+   * Latencia media suavizada (ms)
+   */
+  get averageRtt(): number {
+    return this.smoothedRtt;
+  }
+
+  private release(requestId: string): boolean {
+    return this.inFlight.delete(requestId) || this.replayInFlight.delete(requestId);
+  }
+
+  private clamp(interval: number): number {
+    return Math.min(this.config.maxInterval, Math.max(this.config.minInterval, interval));
+  }
+}
@@ -0,0 +1,199 @@
+import { Injectable } from '@angular/core';
+import { EventClip } from '../core/abstractions/camera.abstract';
+import { environment } from '../../environments/environment';
+
+// Grabación de un segmento; se descarta si ningún evento la reclama a tiempo
+interface RollingRecorder {
+  recorder: MediaRecorder;
+  startedAt: number;
+  chunks: Blob[];
+  clip: Promise<EventClip | null> | null; // Reclamada por un evento: se cierra tras el post-roll
+  stopAt: number; // Fin previsto del clip reclamado
+}
+
+// Grabadoras de un stream
+interface StreamRecording {
+  mediaStream: MediaStream;
+  recorders: RollingRecorder[];
+  rotationTimer: any;
+}
+
+/**
+ * Clips WebM de eventos con pre-roll y post-roll. Un WebM no se puede recortar
+ * por el principio, así que se arranca una grabadora nueva cada `segment` ms y
+ * se descartan las que ya no cubren el pre-roll. Ante un evento se toma la más
+ * reciente que empezó al menos `preRoll` ms antes y se detiene `postRoll` ms después.
+ * Los eventos que caen dentro de un clip ya reclamado comparten ese clip.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ClipRecorderService {
+  private readonly config = environment.clips;
+  private readonly MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  private readonly TIMESLICE = 1000; // ms por chunk de dataavailable
+
+  private recordings = new Map<string, StreamRecording>();
+  private mimeType: string | null | undefined; // undefined = aún sin comprobar
+
+  /**
+   * Empezar a grabar en segundo plano el stream de una cámara
+   * (si ya se grababa otro MediaStream, p.ej. tras cambiar de cámara, se reemplaza)
+   */
+  attach(streamId: string, mediaStream: MediaStream): void {
+    if (!this.config.enabled || !this.supportedMimeType()) {
+      return;
+    }
+    if (this.recordings.get(streamId)?.mediaStream === mediaStream) {
+      return;
+    }
+
+    this.detach(streamId);
+    const recording: StreamRecording = { mediaStream, recorders: [], rotationTimer: null };
+    this.recordings.set(streamId, recording);
+
+    this.rotate(recording);
+    recording.rotationTimer = setInterval(() => this.rotate(recording), this.config.segment);
+    console.log(`🎬 Grabación de clips activa [${streamId}] (${this.config.preRoll / 1000}s antes / ${this.config.postRoll / 1000}s después)`);
+  }
+
+  /**
+   * Dejar de grabar; los clips ya reclamados por un evento se completan igualmente
+   */
+  detach(streamId: string): void {
+    const recording = this.recordings.get(streamId);
+    if (!recording) return;
+
+    clearInterval(recording.rotationTimer);
+    recording.recorders
+      .filter(rolling => !rolling.clip)
+      .forEach(rolling => this.discard(rolling));
+    this.recordings.delete(streamId);
+  }
+
+  /**
+   * Guardar un clip alrededor de este instante (detección de placa o disparo manual).
+   * Resuelve tras el post-roll; null si no se está grabando el stream.
+   */
+  capture(streamId: string): Promise<EventClip | null> {
+    const recording = this.recordings.get(streamId);
+    if (!recording || recording.recorders.length === 0) {
+      return Promise.resolve(null);
+    }
+
+    const eventAt = Date.now();
+
+    // El mismo vehículo se detecta en varios frames seguidos: comparten clip
+    // mientras el ya reclamado cubra al menos la mitad del post-roll
+    const shared = recording.recorders.find(rolling => rolling.clip && rolling.stopAt >= eventAt + this.config.postRoll / 2);
+    if (shared) {
+      return shared.clip!;
+    }
+
+    const free = recording.recorders.filter(rolling => !rolling.clip);
+    if (free.length === 0) {
+      return Promise.resolve(null);
+    }
+
+    // Sin ninguna que cubra todo el pre-roll (recién arrancada) se usa la más antigua
+    const covering = free.filter(rolling => rolling.startedAt <= eventAt - this.config.preRoll);
+    const rolling = covering.length > 0 ? covering[covering.length - 1] : free[0];
+
+    rolling.stopAt = eventAt + this.config.postRoll;
+    rolling.clip = this.finish(streamId, recording, rolling, eventAt);
+    return rolling.clip;
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Arrancar una grabadora nueva y descartar las que ya no sirven para ningún pre-roll
+   */
+  private rotate(recording: StreamRecording): void {
+    const now = Date.now();
+    recording.recorders = recording.recorders.filter(rolling => {
+      const expired = !rolling.clip && now - rolling.startedAt > this.config.preRoll + this.config.segment;
+      if (expired) {
+        this.discard(rolling);
+      }
+      return !expired;
+    });
+
+    try {
+      const recorder = new MediaRecorder(recording.mediaStream, {
+        mimeType: this.supportedMimeType()!,
+        videoBitsPerSecond: this.config.videoBitsPerSecond
+      });
+      const rolling: RollingRecorder = { recorder, startedAt: now, chunks: [], clip: null, stopAt: 0 };
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) {
+          rolling.chunks.push(event.data);
+        }
+      };
+      recorder.start(this.TIMESLICE);
+      recording.recorders.push(rolling);
+    } catch (error) {
+      console.error('❌ Error iniciando grabación de clip:', error);
+    }
+  }
+
+  /**
+   * Esperar el post-roll, detener la grabadora y devolver el clip completo
+   */
+  private async finish(
+    streamId: string,
+    recording: StreamRecording,
+    rolling: RollingRecorder,
+    eventAt: number
+  ): Promise<EventClip | null> {
+    await new Promise(resolve => setTimeout(resolve, this.config.postRoll));
+
+    if (rolling.recorder.state !== 'inactive') {
+      await new Promise<void>(resolve => {
+        rolling.recorder.onstop = () => resolve();
+        rolling.recorder.stop();
+      });
+    }
+    recording.recorders = recording.recorders.filter(other => other !== rolling);
+
+    if (rolling.chunks.length === 0) {
+      console.warn(`⚠️ Clip vacío [${streamId}]`);
+      return null;
+    }
+
+    const endedAt = Date.now();
+    const blob = new Blob(rolling.chunks, { type: rolling.recorder.mimeType || 'video/webm' });
+    rolling.chunks = [];
+
+    console.log(`🎬 Clip [${streamId}] listo: ${((endedAt - rolling.startedAt) / 1000).toFixed(1)}s, ${(blob.size / 1024).toFixed(0)}KB`);
+    return {
+      id: `clip_${streamId}_${rolling.startedAt}`,
+      streamId,
+      blob,
+      startedAt: rolling.startedAt,
+      eventAt,
+      endedAt
+    };
+  }
+
+  private discard(rolling: RollingRecorder): void {
+    rolling.recorder.ondataavailable = null;
+    if (rolling.recorder.state !== 'inactive') {
+      rolling.recorder.stop();
+    }
+    rolling.chunks = [];
+  }
+
+  private supportedMimeType(): string | null {
+    if (this.mimeType === undefined) {
+      this.mimeType = typeof MediaRecorder === 'undefined'
+        ? null
+        : this.MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+      if (!this.mimeType) {
+        console.warn('⚠️ MediaRecorder con WebM no disponible: no se grabarán clips de eventos');
+      }
+    }
+    return this.mimeType;
+  }
+}
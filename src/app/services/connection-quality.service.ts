@@ -0,0 +1,184 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable, distinctUntilChanged } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { AnalysisTransport } from '../core/abstractions/analysis-transport.abstract';
+
+export type ConnectionQualityLevel = 'good' | 'fair' | 'poor' | 'offline';
+
+export interface ConnectionQuality {
+  level: ConnectionQualityLevel;
+  rtt: number | null; // ms, media móvil de los pings
+  jitter: number | null; // ms, variación entre pings consecutivos
+  throughput: number | null; // bytes/s de subida, según payload enviado y tiempo hasta el ack
+  droppedPings: number;
+  droppedFrames: number; // Frames enviados sin ack del servidor
+  sampledAt: number;
+}
+
+interface UploadSample {
+  bytes: number;
+  duration: number; // ms desde el envío hasta el ack
+  timestamp: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectionQualityService {
+  private quality = new BehaviorSubject<ConnectionQuality>(this.emptyQuality('offline'));
+  private pingTimer: any;
+  private rtt: number | null = null;
+  private jitter: number | null = null;
+  private lastPingRtt: number | null = null;
+  private uploads: UploadSample[] = [];
+  private droppedPings = 0;
+  private consecutiveDroppedPings = 0;
+  private droppedFrames = 0;
+  private isBrowser: boolean;
+
+  private readonly PING_INTERVAL = 5000;
+  private readonly PING_TIMEOUT = 3000;
+  private readonly RTT_SMOOTHING = 0.3; // Peso del último ping en la media móvil
+  private readonly JITTER_SMOOTHING = 1 / 16; // Estimador de jitter de RTP (RFC 3550)
+  private readonly THROUGHPUT_WINDOW = 10000; // Subidas consideradas para el throughput
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    private transport: AnalysisTransport
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+
+    // Las mediciones son por conexión: se reinician al reconectar
+    this.transport.isConnected$().pipe(distinctUntilChanged()).subscribe(connected => {
+      if (connected) {
+        this.startPinging();
+      } else {
+        this.stopPinging();
+      }
+    });
+  }
+
+  /**
+   * Registrar un frame enviado; `ackTime` es null si el servidor no confirmó
+   */
+  recordUpload(bytes: number, ackTime: number | null): void {
+    if (ackTime === null) {
+      this.droppedFrames++;
+    } else {
+      this.uploads.push({ bytes, duration: Math.max(ackTime, 1), timestamp: Date.now() });
+    }
+    this.publish();
+  }
+
+  /**
+   * Observable de la calidad de la conexión activa
+   */
+  get quality$(): Observable<ConnectionQuality> {
+    return this.quality.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private startPinging(): void {
+    if (!this.isBrowser) return;
+
+    this.stopPinging();
+    this.reset();
+    this.ping();
+    this.pingTimer = setInterval(() => this.ping(), this.PING_INTERVAL);
+  }
+
+  private stopPinging(): void {
+    clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.quality.next({ ...this.quality.value, level: 'offline', sampledAt: Date.now() });
+  }
+
+  /**
+   * Medir RTT con un evento ping/pong de la capa de aplicación
+   */
+  private async ping(): Promise<void> {
+    const sentAt = Date.now();
+    const pong = await this.transport.emitWithAck<{ sentAt: number }>('latency-ping', { sentAt }, this.PING_TIMEOUT);
+    if (!this.pingTimer) return;
+
+    if (!pong) {
+      this.droppedPings++;
+      this.consecutiveDroppedPings++;
+      this.publish();
+      return;
+    }
+
+    this.consecutiveDroppedPings = 0;
+    const sample = Date.now() - sentAt;
+    this.rtt = this.rtt === null ? sample : this.rtt + (sample - this.rtt) * this.RTT_SMOOTHING;
+
+    if (this.lastPingRtt !== null) {
+      const delta = Math.abs(sample - this.lastPingRtt);
+      this.jitter = this.jitter === null ? delta : this.jitter + (delta - this.jitter) * this.JITTER_SMOOTHING;
+    }
+    this.lastPingRtt = sample;
+
+    this.publish();
+  }
+
+  private publish(): void {
+    const now = Date.now();
+    this.uploads = this.uploads.filter(upload => now - upload.timestamp <= this.THROUGHPUT_WINDOW);
+
+    const totalBytes = this.uploads.reduce((sum, upload) => sum + upload.bytes, 0);
+    const totalTime = this.uploads.reduce((sum, upload) => sum + upload.duration, 0);
+
+    this.quality.next({
+      level: this.pingTimer ? this.classify() : 'offline',
+      rtt: this.rtt === null ? null : Math.round(this.rtt),
+      jitter: this.jitter === null ? null : Math.round(this.jitter),
+      throughput: totalTime > 0 ? Math.round(totalBytes / (totalTime / 1000)) : null,
+      droppedPings: this.droppedPings,
+      droppedFrames: this.droppedFrames,
+      sampledAt: now
+    });
+  }
+
+  /**
+   * Clasificar el enlace según RTT, jitter y pings perdidos
+   */
+  private classify(): ConnectionQualityLevel {
+    if (this.consecutiveDroppedPings >= 2) {
+      return 'poor';
+    }
+    if (this.rtt === null) {
+      return this.consecutiveDroppedPings > 0 ? 'fair' : 'good';
+    }
+    if (this.rtt > 1500 || (this.jitter ?? 0) > 500) {
+      return 'poor';
+    }
+    if (this.consecutiveDroppedPings > 0 || this.rtt > 400 || (this.jitter ?? 0) > 150) {
+      return 'fair';
+    }
+    return 'good';
+  }
+
+  private reset(): void {
+    this.rtt = null;
+    this.jitter = null;
+    this.lastPingRtt = null;
+    this.uploads = [];
+    this.droppedPings = 0;
+    this.consecutiveDroppedPings = 0;
+    this.droppedFrames = 0;
+    this.quality.next(this.emptyQuality('good'));
+  }
+
+  private emptyQuality(level: ConnectionQualityLevel): ConnectionQuality {
+    return {
+      level,
+      rtt: null,
+      jitter: null,
+      throughput: null,
+      droppedPings: 0,
+      droppedFrames: 0,
+      sampledAt: Date.now()
+    };
+  }
+}
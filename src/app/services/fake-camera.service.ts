@@ -0,0 +1,123 @@
+import { Injectable } from '@angular/core';
+import { UserMediaCameraService } from './user-media-camera.service';
+import { environment } from '../../environments/environment';
+
+interface FakeSource {
+  canvas: HTMLCanvasElement;
+  video: HTMLVideoElement | null;
+  drawTimer: any;
+}
+
+/**
+ * Cámara simulada: en lugar de abrir un dispositivo reproduce en bucle el
+ * video o la secuencia de imágenes de `environment.fakeCamera` sobre un canvas
+ * y entrega su captureStream(). El resto (captura, thumbnails, HD, estadísticas)
+ * es el mismo pipeline que con la cámara real.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FakeCameraService extends UserMediaCameraService {
+  override readonly simulated: boolean = true;
+  private readonly FAKE_DEVICE_ID = 'fake-camera';
+
+  private sources = new Map<string, FakeSource>();
+
+  override stopCamera(streamId?: string): void {
+    super.stopCamera(streamId);
+
+    const targets = streamId ? [streamId] : Array.from(this.sources.keys());
+    targets.forEach(id => this.releaseSource(id));
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  protected override async openMediaStream(streamId: string): Promise<MediaStream> {
+    const { video, images, frameRate } = environment.fakeCamera;
+
+    // Al cambiar de "dispositivo" se vuelve a abrir: liberar la reproducción anterior
+    this.releaseSource(streamId);
+
+    const source: FakeSource = { canvas: document.createElement('canvas'), video: null, drawTimer: null };
+    this.sources.set(streamId, source);
+
+    if (video) {
+      await this.playVideo(source, video, frameRate);
+      console.log(`🎞️ Cámara simulada [${streamId}] reproduciendo ${video}`);
+    } else if (images.length > 0) {
+      await this.playImages(source, images, frameRate);
+      console.log(`🎞️ Cámara simulada [${streamId}] reproduciendo ${images.length} imágenes`);
+    } else {
+      this.releaseSource(streamId);
+      throw new Error('Cámara simulada sin video ni imágenes configuradas');
+    }
+
+    // Las ROI de la cámara simulada se guardan bajo este "dispositivo"
+    this.markActiveDevice(streamId, this.FAKE_DEVICE_ID);
+
+    return source.canvas.captureStream(frameRate);
+  }
+
+  private async playVideo(source: FakeSource, url: string, frameRate: number): Promise<void> {
+    const video = document.createElement('video');
+    video.muted = true; // Sin audio el navegador permite el autoplay
+    video.loop = true;
+    video.playsInline = true;
+    source.video = video;
+
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error(`No se pudo cargar el video simulado: ${url}`));
+      video.src = url;
+    });
+    await video.play();
+
+    source.canvas.width = video.videoWidth;
+    source.canvas.height = video.videoHeight;
+    const ctx = source.canvas.getContext('2d')!;
+
+    source.drawTimer = setInterval(() => ctx.drawImage(video, 0, 0), 1000 / frameRate);
+  }
+
+  private async playImages(source: FakeSource, urls: string[], frameRate: number): Promise<void> {
+    const frames = await Promise.all(urls.map(url => this.loadImage(url)));
+
+    // El tamaño del stream lo fija la primera imagen; el resto se escala a él
+    source.canvas.width = frames[0].naturalWidth;
+    source.canvas.height = frames[0].naturalHeight;
+    const ctx = source.canvas.getContext('2d')!;
+
+    let index = 0;
+    const drawNext = () => {
+      ctx.drawImage(frames[index], 0, 0, source.canvas.width, source.canvas.height);
+      index = (index + 1) % frames.length;
+    };
+
+    drawNext();
+    source.drawTimer = setInterval(drawNext, 1000 / frameRate);
+  }
+
+  private async loadImage(url: string): Promise<HTMLImageElement> {
+    const image = new Image();
+    image.src = url;
+    try {
+      await image.decode();
+    } catch {
+      throw new Error(`No se pudo cargar la imagen simulada: ${url}`);
+    }
+    return image;
+  }
+
+  private releaseSource(streamId: string): void {
+    const source = this.sources.get(streamId);
+    if (!source) return;
+
+    clearInterval(source.drawTimer);
+    if (source.video) {
+      source.video.pause();
+      source.video.removeAttribute('src');
+      source.video.load();
+    }
+    this.sources.delete(streamId);
+  }
+}
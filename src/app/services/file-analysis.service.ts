@@ -0,0 +1,352 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, filter, firstValueFrom } from 'rxjs';
+import { saveAs } from 'file-saver';
+import { AnalysisTransport } from '../core/abstractions/analysis-transport.abstract';
+import { HDImageSource, ImageAnalysisService } from './image-analysis.service';
+import { ImageProcessorService } from './image-processor.service';
+import { ImageFormatService } from './image-format.service';
+import { DetectionResult, EncodedImage } from '../interfaces/plate-detection.interface';
+import { environment } from '../../environments/environment';
+
+export type FileAnalysisKind = 'video' | 'images';
+export type FileAnalysisStatus = 'idle' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface FileFrameResult {
+  source: string; // Nombre del archivo analizado
+  offset: number | null; // Segundo dentro del video (null en imágenes)
+  label: string; // Origen legible: "video.mp4 @ 00:01:05.0" o "IMG_0001.jpg"
+  result: DetectionResult | null; // null = error o sin respuesta del servidor
+}
+
+export interface FileAnalysisProgress {
+  status: FileAnalysisStatus;
+  kind: FileAnalysisKind | null;
+  name: string;
+  processed: number;
+  total: number;
+  platesFound: number;
+  failed: number;
+  error?: string;
+  results: FileFrameResult[];
+}
+
+// Origen de un frame, conocido antes de extraerlo
+type FrameOrigin = Omit<FileFrameResult, 'result'>;
+
+interface SampledFrame {
+  thumbnail: EncodedImage;
+  hdImage: HDImageSource;
+  release?: () => void; // Liberar el frame si el resultado no necesita su HD
+}
+
+/**
+ * Análisis de grabaciones traídas por los operadores (dashcam, volcados de fotos).
+ * Los frames siguen el mismo camino que la cámara: processImageTo300x300 con la
+ * codificación negociada y envío por el transporte activo, de uno en uno.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FileAnalysisService {
+  readonly STREAM_ID = 'archivo'; // streamId de los frames que no vienen de una cámara
+  private readonly HD_QUALITY = 0.92;
+
+  private progress = new BehaviorSubject<FileAnalysisProgress>(this.emptyProgress());
+  private paused = new BehaviorSubject<boolean>(false);
+  private cancelled = false;
+
+  constructor(
+    private transport: AnalysisTransport,
+    private imageAnalysis: ImageAnalysisService,
+    private imageProcessor: ImageProcessorService,
+    private imageFormat: ImageFormatService
+  ) {}
+
+  /**
+   * Analizar un video muestreando `sampleRate` frames por segundo de grabación
+   */
+  async analyzeVideo(file: File, sampleRate: number = environment.fileAnalysis.sampleRate): Promise<void> {
+    this.assertIdle();
+
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+
+    try {
+      await this.waitForEvent(video, 'loadedmetadata', () => { video.src = url; });
+      if (!Number.isFinite(video.duration) || video.duration <= 0) {
+        throw new Error(`Duración del video desconocida: ${file.name}`);
+      }
+
+      const step = 1 / sampleRate;
+      const offsets: number[] = [];
+      for (let offset = 0; offset < video.duration; offset += step) {
+        offsets.push(offset);
+      }
+
+      console.log(`🎬 Analizando ${file.name}: ${offsets.length} frames (${sampleRate} por segundo de ${video.duration.toFixed(1)}s)`);
+
+      const originAt = (index: number): FrameOrigin => ({
+        source: file.name,
+        offset: offsets[index],
+        label: `${file.name} @ ${this.formatOffset(offsets[index])}`
+      });
+
+      await this.run('video', file.name, offsets.length, originAt, async index => {
+        await this.waitForEvent(video, 'seeked', () => { video.currentTime = offsets[index]; });
+
+        const thumbnail = await this.imageProcessor.processImageTo300x300(video, this.imageFormat.selectEncoding(), this.imageFormat.maxBytes);
+        // El JPEG HD se codifica solo si el resultado lo necesita (placa o HD pedido)
+        const bitmap = await createImageBitmap(video);
+        return { thumbnail, hdImage: this.deferredHD(bitmap), release: () => bitmap.close() };
+      });
+    } catch (error) {
+      this.fail(error);
+    } finally {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Analizar las imágenes de una carpeta, en orden de ruta/nombre
+   */
+  async analyzeImages(files: File[]): Promise<void> {
+    this.assertIdle();
+
+    const images = files
+      .filter(file => file.type.startsWith('image/'))
+      .sort((a, b) => this.relativePath(a).localeCompare(this.relativePath(b), undefined, { numeric: true }));
+    const name = images.length > 0 ? this.folderName(images[0]) : 'sin imágenes';
+
+    console.log(`🗂️ Analizando ${images.length} imágenes de ${name}`);
+
+    try {
+      const originAt = (index: number): FrameOrigin => ({
+        source: this.relativePath(images[index]),
+        offset: null,
+        label: this.relativePath(images[index])
+      });
+
+      await this.run('images', name, images.length, originAt, async index => {
+        const file = images[index];
+        const bitmap = await createImageBitmap(file);
+        try {
+          return {
+            thumbnail: await this.imageProcessor.processImageTo300x300(bitmap, this.imageFormat.selectEncoding(), this.imageFormat.maxBytes),
+            hdImage: file // El archivo original ya es la imagen en alta resolución
+          };
+        } finally {
+          bitmap.close();
+        }
+      });
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  pause(): void {
+    if (this.progress.value.status !== 'running') return;
+    this.paused.next(true);
+    this.update({ status: 'paused' });
+    console.log('⏸️ Análisis de archivos pausado');
+  }
+
+  resume(): void {
+    if (this.progress.value.status !== 'paused') return;
+    this.paused.next(false);
+    this.update({ status: 'running' });
+    console.log('▶️ Análisis de archivos reanudado');
+  }
+
+  cancel(): void {
+    const { status } = this.progress.value;
+    if (status !== 'running' && status !== 'paused') return;
+    this.cancelled = true;
+    this.paused.next(false); // Despertar el bucle para que termine
+  }
+
+  /**
+   * Descargar los resultados como CSV, con el origen de cada frame
+   */
+  exportResults(): void {
+    const { name, results } = this.progress.value;
+    const rows = [
+      ['origen', 'segundo', 'placa', 'placas', 'confianza', 'color', 'vehiculo'],
+      ...results.map(({ source, offset, result }) => [
+        source,
+        offset === null ? '' : offset.toFixed(2),
+        result === null ? 'error' : result.hasPlate ? 'si' : 'no',
+        result?.plates.join(' ') ?? '',
+        result?.confidence?.toFixed(3) ?? '',
+        result?.vehicleColor ?? '',
+        result?.vehicleDescription ?? ''
+      ])
+    ];
+
+    const csv = rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+    saveAs(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `resultados_${name.replace(/[^\w.-]+/g, '_')}.csv`);
+  }
+
+  /**
+   * Observable del progreso del análisis en curso (o del último)
+   */
+  get progress$(): Observable<FileAnalysisProgress> {
+    return this.progress.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Bucle común: espera conexión y reanudación, extrae el frame y espera su resultado.
+   * Un frame que no se puede extraer o enviar cuenta como fallido y el bucle sigue.
+   */
+  private async run(
+    kind: FileAnalysisKind,
+    name: string,
+    total: number,
+    originAt: (index: number) => FrameOrigin,
+    frameAt: (index: number) => Promise<SampledFrame>
+  ): Promise<void> {
+    this.cancelled = false;
+    this.paused.next(false);
+    this.progress.next({ ...this.emptyProgress(), status: 'running', kind, name, total });
+
+    for (let index = 0; index < total; index++) {
+      await this.waitUntilReady();
+      if (this.cancelled) break;
+
+      const origin = originAt(index);
+      let result: DetectionResult | null = null;
+      let frame: SampledFrame | null = null;
+      try {
+        frame = await frameAt(index);
+        result = await this.imageAnalysis.analyzeExternalFrame({
+          streamId: this.STREAM_ID,
+          source: origin.label,
+          thumbnail: frame.thumbnail,
+          hdImage: frame.hdImage
+        });
+      } catch (error) {
+        console.error(`❌ Error analizando ${origin.label}:`, error);
+      } finally {
+        // Si el resultado necesita el HD, lo libera quien lo codifica
+        if (!result?.hasPlate && !result?.requestHD) {
+          frame?.release?.();
+        }
+      }
+
+      const current = this.progress.value;
+      this.update({
+        processed: index + 1,
+        platesFound: current.platesFound + (result?.hasPlate ? 1 : 0),
+        failed: current.failed + (result === null ? 1 : 0),
+        results: [...current.results, { ...origin, result }]
+      });
+    }
+
+    const { processed, platesFound, failed } = this.progress.value;
+    this.update({ status: this.cancelled ? 'cancelled' : 'completed' });
+    console.log(`${this.cancelled ? '⏹️ Análisis de archivos cancelado' : '✅ Análisis de archivos completado'}: ` +
+      `${processed}/${total} frames, ${platesFound} con placa, ${failed} fallidos`);
+  }
+
+  /**
+   * Sin conexión el análisis espera (no se encola) y continúa al reconectar
+   */
+  private async waitUntilReady(): Promise<void> {
+    await firstValueFrom(
+      combineLatest([this.transport.isConnected$(), this.paused]).pipe(
+        filter(([connected, paused]) => this.cancelled || (connected && !paused))
+      )
+    );
+  }
+
+  /**
+   * Codificar el frame HD la primera vez que se pide y liberar el bitmap
+   */
+  private deferredHD(bitmap: ImageBitmap): () => Promise<Blob> {
+    let encoded: Promise<Blob> | null = null;
+    return () => encoded ??= this.captureHD(bitmap, bitmap.width, bitmap.height).finally(() => bitmap.close());
+  }
+
+  private async captureHD(source: CanvasImageSource, width: number, height: number): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(source, 0, 0);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('No se pudo codificar el frame HD')), 'image/jpeg', this.HD_QUALITY);
+    });
+  }
+
+  private waitForEvent(video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked', trigger: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = () => {
+        cleanup();
+        reject(new Error(`No se pudo leer el video (${event})`));
+      };
+      const onEvent = () => {
+        cleanup();
+        resolve();
+      };
+      const cleanup = () => {
+        video.removeEventListener(event, onEvent);
+        video.removeEventListener('error', onError);
+      };
+
+      video.addEventListener(event, onEvent);
+      video.addEventListener('error', onError);
+      trigger();
+    });
+  }
+
+  private assertIdle(): void {
+    const { status } = this.progress.value;
+    if (status === 'running' || status === 'paused') {
+      throw new Error('Ya hay un análisis de archivos en curso');
+    }
+  }
+
+  private fail(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ Error en análisis de archivos:', error);
+    this.update({ status: 'failed', error: message });
+  }
+
+  private update(changes: Partial<FileAnalysisProgress>): void {
+    this.progress.next({ ...this.progress.value, ...changes });
+  }
+
+  private relativePath(file: File): string {
+    return file.webkitRelativePath || file.name;
+  }
+
+  private folderName(file: File): string {
+    const path = this.relativePath(file);
+    return path.includes('/') ? path.slice(0, path.indexOf('/')) : path;
+  }
+
+  private formatOffset(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = (seconds % 60).toFixed(1).padStart(4, '0');
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${rest}`;
+  }
+
+  private emptyProgress(): FileAnalysisProgress {
+    return {
+      status: 'idle',
+      kind: null,
+      name: '',
+      processed: 0,
+      total: 0,
+      platesFound: 0,
+      failed: 0,
+      results: []
+    };
+  }
+}
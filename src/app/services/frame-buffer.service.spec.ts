@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { BufferedFrame } from '../core/abstractions/camera.abstract';
+import { FrameBufferService } from './frame-buffer.service';
+import { environment } from '../../environments/environment';
+
+describe('FrameBufferService', () => {
+  const { size, preRoll, postRoll, postRollTimeout } = environment.frameBuffer;
+  const STREAM = 'main';
+  let service: FrameBufferService;
+
+  const bitmap = () => createImageBitmap(new ImageData(4, 4));
+
+  const pushFrames = async (ids: string[]): Promise<Map<string, ImageBitmap>> => {
+    const bitmaps = new Map<string, ImageBitmap>();
+    for (const id of ids) {
+      bitmaps.set(id, await bitmap());
+    }
+    // Sin esperas entre medias: el orden de push es el mismo que en la cámara
+    bitmaps.forEach((image, id) => service.push(STREAM, id, image, null));
+    return bitmaps;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FrameBufferService);
+  });
+
+  afterEach(() => {
+    service.clear();
+  });
+
+  it('debería devolver la captura con su pre-roll y post-roll en orden', async () => {
+    expect(preRoll).toBe(1);
+    expect(postRoll).toBe(1);
+    await pushFrames(['f0', 'f1', 'f2', 'f3', 'f4']);
+
+    const frames = await service.around(STREAM, 'f2');
+
+    expect(frames.map(frame => frame.captureId)).toEqual(['f1', 'f2', 'f3']);
+    expect(frames.map(frame => frame.offset)).toEqual([-1, 0, 1]);
+    frames.forEach(frame => expect(frame.blob.type).toBe('image/jpeg'));
+  });
+
+  it('debería esperar a que se capture el post-roll', async () => {
+    await pushFrames(['f0', 'f1']);
+
+    const pending = service.around(STREAM, 'f1');
+    await pushFrames(['f2']);
+    const frames = await pending;
+
+    expect(frames.map(frame => frame.captureId)).toEqual(['f0', 'f1', 'f2']);
+  });
+
+  it('debería devolver lo que haya al agotar postRollTimeout', async () => {
+    await pushFrames(['f0', 'f1']);
+
+    jasmine.clock().install();
+    let pending: Promise<BufferedFrame[]>;
+    try {
+      pending = service.around(STREAM, 'f1');
+      jasmine.clock().tick(postRollTimeout);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+    const frames = await pending;
+
+    expect(frames.map(frame => frame.captureId)).toEqual(['f0', 'f1']);
+  });
+
+  it('debería retener la captura, el pre-roll y el post-roll mientras espera y liberarlos al terminar', async () => {
+    const bitmaps = await pushFrames(['f0', 'f1']);
+
+    const pending = service.around(STREAM, 'f1');
+    // Más frames de los que caben: se desalojan los no retenidos
+    const extra = Array.from({ length: size + 2 }, (_, i) => `p${i}`);
+    await pushFrames(extra);
+    const frames = await pending;
+
+    expect(frames.map(frame => frame.captureId)).toEqual(['f0', 'f1', 'p0']);
+    expect(await service.encode(STREAM, 'p4')).toBeNull();
+
+    // Ya sin pins, el siguiente push desaloja a la captura como a cualquier otro frame
+    await pushFrames(['p10']);
+    expect(await service.encode(STREAM, 'f0')).toBeNull();
+    expect(bitmaps.get('f0')!.width).toBe(0); // ImageBitmap cerrado
+  });
+
+  it('debería devolver una lista vacía si la captura ya salió del buffer', async () => {
+    await pushFrames(['f0']);
+
+    expect(await service.around(STREAM, 'desconocida')).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { Injectable } from '@angular/core';
+import { Subject, filter, firstValueFrom, map, merge, timer } from 'rxjs';
+import { BufferedFrame } from '../core/abstractions/camera.abstract';
+import { FrameQuality } from '../interfaces/plate-detection.interface';
+import { environment } from '../../environments/environment';
+
+// Frame sin codificar retenido en memoria
+interface RawFrame {
+  captureId: string;
+  capturedAt: number;
+  bitmap: ImageBitmap;
+  quality: FrameQuality | null;
+  pins: number; // Peticiones que lo están codificando: no se puede liberar
+}
+
+/**
+ * Buffer circular de los últimos frames enviados de cada stream, sin codificar
+ * (ImageBitmap) e indexados por captureId. Solo cuando el backend reporta una
+ * placa se codifican a JPEG la captura y sus vecinas (pre-roll y post-roll);
+ * el resto de frames nunca paga la codificación.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FrameBufferService {
+  private readonly config = environment.frameBuffer;
+  private buffers = new Map<string, RawFrame[]>();
+  private pushed = new Subject<string>(); // streamId del último frame añadido
+  private canvas: HTMLCanvasElement | null = null;
+
+  /**
+   * Añadir un frame; el buffer pasa a ser su dueño y lo libera al desalojarlo
+   */
+  push(streamId: string, captureId: string, bitmap: ImageBitmap, quality: FrameQuality | null): void {
+    const buffer = this.bufferFor(streamId);
+    buffer.push({ captureId, capturedAt: Date.now(), bitmap, quality, pins: 0 });
+    this.evict(buffer);
+    this.pushed.next(streamId);
+  }
+
+  /**
+   * Codificar solo el frame de una captura (p.ej. cuando el backend pide su HD)
+   */
+  async encode(streamId: string, captureId: string): Promise<BufferedFrame | null> {
+    const buffer = this.bufferFor(streamId);
+    const entry = buffer.find(frame => frame.captureId === captureId);
+    if (!entry) {
+      return null;
+    }
+
+    const [frame] = await this.encodeAll(buffer, [entry], buffer.indexOf(entry));
+    return frame;
+  }
+
+  /**
+   * Codificar la captura con sus `preRoll` frames anteriores y `postRoll` posteriores.
+   * Si los posteriores aún no se capturaron se esperan hasta `postRollTimeout`.
+   */
+  async around(streamId: string, captureId: string): Promise<BufferedFrame[]> {
+    const buffer = this.bufferFor(streamId);
+    const entry = buffer.find(frame => frame.captureId === captureId);
+    if (!entry) {
+      console.warn(`⚠️ Captura ${captureId} ya no está en el buffer HD`);
+      return [];
+    }
+
+    // Retener la captura, el pre-roll y el post-roll según llega, hasta codificarlos
+    const index = buffer.indexOf(entry);
+    const before = buffer.slice(Math.max(0, index - this.config.preRoll), index);
+    const pinned = [...before, entry];
+    pinned.forEach(frame => frame.pins++);
+
+    const pinPostRoll = () => {
+      const start = buffer.indexOf(entry);
+      buffer.slice(start + 1, start + 1 + this.config.postRoll)
+        .filter(frame => !pinned.includes(frame))
+        .forEach(frame => {
+          frame.pins++;
+          pinned.push(frame);
+        });
+    };
+    pinPostRoll();
+    const pinning = this.pushed.pipe(filter(id => id === streamId)).subscribe(pinPostRoll);
+
+    try {
+      await firstValueFrom(merge(
+        this.pushed.pipe(
+          filter(id => id === streamId && this.framesAfter(buffer, entry) >= this.config.postRoll),
+          map(() => true)
+        ),
+        timer(this.framesAfter(buffer, entry) >= this.config.postRoll ? 0 : this.config.postRollTimeout)
+      ));
+    } finally {
+      pinning.unsubscribe();
+      pinned.forEach(frame => frame.pins--);
+    }
+
+    const start = buffer.indexOf(entry);
+    const after = buffer.slice(start + 1, start + 1 + this.config.postRoll);
+    return this.encodeAll(buffer, [...before, entry, ...after], before.length);
+  }
+
+  /**
+   * Liberar los frames de un stream (o de todos)
+   */
+  clear(streamId?: string): void {
+    const targets = streamId ? [streamId] : Array.from(this.buffers.keys());
+    targets.forEach(id => {
+      const buffer = this.buffers.get(id);
+      if (!buffer) return;
+
+      // Los que se están codificando se liberan al terminar (evict de un buffer huérfano)
+      this.buffers.delete(id);
+      this.evict(buffer);
+    });
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Codificar en orden; `detectionIndex` es la posición de la captura pedida (offset 0)
+   */
+  private async encodeAll(buffer: RawFrame[], frames: RawFrame[], detectionIndex: number): Promise<BufferedFrame[]> {
+    frames.forEach(frame => frame.pins++);
+
+    try {
+      const encoded: BufferedFrame[] = [];
+      for (const [i, frame] of frames.entries()) {
+        encoded.push({
+          captureId: frame.captureId,
+          offset: i - detectionIndex,
+          capturedAt: frame.capturedAt,
+          quality: frame.quality,
+          blob: await this.toJpeg(frame.bitmap)
+        });
+      }
+      return encoded;
+    } finally {
+      frames.forEach(frame => frame.pins--);
+      this.evict(buffer);
+    }
+  }
+
+  private toJpeg(bitmap: ImageBitmap): Promise<Blob> {
+    const canvas = this.canvas ?? (this.canvas = document.createElement('canvas'));
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('No se pudo codificar el frame HD')), 'image/jpeg', this.config.hdQuality);
+    });
+  }
+
+  /**
+   * Desalojar los frames más antiguos que no estén retenidos
+   * (todos si el buffer ya no pertenece a ningún stream)
+   */
+  private evict(buffer: RawFrame[]): void {
+    const limit = Array.from(this.buffers.values()).includes(buffer) ? this.config.size : 0;
+    let excess = buffer.length - limit;
+    for (let i = 0; i < buffer.length && excess > 0;) {
+      if (buffer[i].pins === 0) {
+        buffer[i].bitmap.close();
+        buffer.splice(i, 1);
+        excess--;
+      } else {
+        i++;
+      }
+    }
+  }
+
+  private framesAfter(buffer: RawFrame[], entry: RawFrame): number {
+    const index = buffer.indexOf(entry);
+    return index === -1 ? 0 : buffer.length - 1 - index;
+  }
+
+  private bufferFor(streamId: string): RawFrame[] {
+    let buffer = this.buffers.get(streamId);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(streamId, buffer);
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,129 @@
+import { Injectable } from '@angular/core';
+import { CropRect } from './image-processor.service';
+import { FrameSamplerService } from './frame-sampler.service';
+import { FrameQuality } from '../interfaces/plate-detection.interface';
+import { environment } from '../../environments/environment';
+
+export interface FrameQualityConfig {
+  enabled: boolean;
+  minSharpness: number; // Varianza del Laplaciano mínima (a `width` píxeles de ancho)
+  minContrast: number; // Desviación estándar mínima de la luminancia (0-255)
+  maxClipped: number; // Fracción máxima de píxeles quemados o empastados
+  burstSize: number; // Frames que se comparan en cada captura
+  burstSpacing: number; // ms entre frames de la ráfaga
+  width: number; // Ancho del frame reducido en el que se mide
+}
+
+/**
+ * Puntuación de calidad de un frame: foco (varianza del Laplaciano),
+ * exposición (recorte del histograma en sombras y luces) y contraste.
+ * Se mide sobre la ROI si la hay, que es donde tiene que estar la placa.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FrameQualityService {
+  private config: FrameQualityConfig = { ...environment.frameQuality };
+
+  private readonly SHADOW_LEVEL = 8; // Luminancia considerada negro puro
+  private readonly HIGHLIGHT_LEVEL = 247; // Luminancia considerada blanco quemado
+
+  constructor(private frameSampler: FrameSamplerService) {}
+
+  /**
+   * Actualizar la configuración del evaluador
+   */
+  configure(config: Partial<FrameQualityConfig>): void {
+    this.config = { ...this.config, ...config };
+    console.log('⚙️ Evaluador de calidad actualizado:', this.config);
+  }
+
+  getConfig(): FrameQualityConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Medir la calidad de un frame (o de la región `crop`); null si no se pudo medir
+   */
+  score(source: ImageBitmap, crop: CropRect | null = null): FrameQuality | null {
+    const region = crop ?? { x: 0, y: 0, width: source.width, height: source.height };
+    const width = Math.max(3, Math.min(region.width, Math.round(this.config.width)));
+    const height = Math.max(3, Math.round(width * region.height / region.width));
+    const luminance = this.frameSampler.luminance(source, width, height, region);
+    if (!luminance) {
+      return null;
+    }
+
+    const histogram = new Array<number>(256).fill(0);
+    let sum = 0;
+    for (let i = 0; i < luminance.length; i++) {
+      histogram[luminance[i]]++;
+      sum += luminance[i];
+    }
+
+    const pixels = luminance.length;
+    const brightness = sum / pixels;
+    let variance = 0;
+    for (let i = 0; i < pixels; i++) {
+      variance += (luminance[i] - brightness) ** 2;
+    }
+    const contrast = Math.sqrt(variance / pixels);
+
+    const clippedShadows = histogram.slice(0, this.SHADOW_LEVEL + 1).reduce((total, count) => total + count, 0) / pixels;
+    const clippedHighlights = histogram.slice(this.HIGHLIGHT_LEVEL).reduce((total, count) => total + count, 0) / pixels;
+    const sharpness = this.laplacianVariance(luminance, width, height);
+
+    const rejectReason =
+      sharpness < this.config.minSharpness ? 'desenfocado' :
+      clippedHighlights > this.config.maxClipped ? 'sobreexpuesto' :
+      clippedShadows > this.config.maxClipped ? 'subexpuesto' :
+      contrast < this.config.minContrast ? 'sin contraste' :
+      undefined;
+
+    return {
+      sharpness: Math.round(sharpness * 10) / 10,
+      brightness: Math.round(brightness),
+      contrast: Math.round(contrast * 10) / 10,
+      clippedShadows: Math.round(clippedShadows * 1000) / 1000,
+      clippedHighlights: Math.round(clippedHighlights * 1000) / 1000,
+      score: this.combine(sharpness, contrast, clippedShadows + clippedHighlights),
+      accepted: rejectReason === undefined,
+      rejectReason
+    };
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Varianza de la respuesta al Laplaciano 3x3 (4 vecinos): bordes nítidos = varianza alta
+   */
+  private laplacianVariance(luminance: Uint8Array, width: number, height: number): number {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const response = luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i];
+        sum += response;
+        sumSquares += response * response;
+        count++;
+      }
+    }
+
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+
+  /**
+   * Puntuación 0..1: el foco pesa más; el recorte y la falta de contraste la reducen
+   */
+  private combine(sharpness: number, contrast: number, clipped: number): number {
+    const focus = Math.min(1, sharpness / (this.config.minSharpness * 4));
+    const spread = Math.min(1, contrast / (this.config.minContrast * 3));
+    const exposure = Math.max(0, 1 - clipped / Math.max(this.config.maxClipped * 2, 0.01));
+    return Math.round((focus * 0.6 + spread * 0.2 + exposure * 0.2) * 1000) / 1000;
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable } from '@angular/core';
+import { CropRect } from './image-processor.service';
+
+/**
+ * Reducción de frames para las mediciones por píxel (movimiento, calidad,
+ * luz de la escena, vigilancia de la cámara). Un solo canvas compartido en
+ * lugar de uno por servicio muestreando el mismo video en cada ciclo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FrameSamplerService {
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+
+  /**
+   * Frame (o región `crop`) reducido a `width` x `height` en RGBA.
+   * Sin `smoothing` no se promedian píxeles vecinos (conserva el ruido del sensor).
+   * Devuelve null si el navegador no da contexto 2D.
+   */
+  rgba(source: CanvasImageSource, width: number, height: number, crop: CropRect | null = null, smoothing: boolean = true): Uint8ClampedArray | null {
+    if (!this.ctx) {
+      this.canvas = document.createElement('canvas');
+      this.ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+      if (!this.ctx) return null;
+    }
+
+    this.canvas!.width = width;
+    this.canvas!.height = height;
+    this.ctx.imageSmoothingEnabled = smoothing;
+    if (crop) {
+      this.ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+    } else {
+      this.ctx.drawImage(source, 0, 0, width, height);
+    }
+    return this.ctx.getImageData(0, 0, width, height).data;
+  }
+
+  /**
+   * Frame reducido en luminancia, un byte por píxel
+   */
+  luminance(source: CanvasImageSource, width: number, height: number, crop: CropRect | null = null): Uint8Array | null {
+    const data = this.rgba(source, width, height, crop);
+    if (!data) return null;
+
+    const luminance = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+      luminance[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8; // Rec. 601
+    }
+    return luminance;
+  }
+}
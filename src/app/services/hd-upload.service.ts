@@ -0,0 +1,316 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { AnalysisTransport } from '../core/abstractions/analysis-transport.abstract';
+import { environment } from '../../environments/environment';
+import {
+  HDChunkAck,
+  HDCompleteAck,
+  HDImageChunk,
+  HDUploadManifest,
+  HDUploadStatus
+} from '../interfaces/plate-detection.interface';
+
+export type HDUploadState = 'uploading' | 'paused' | 'completed' | 'failed';
+
+export interface HDUploadProgress {
+  imageId: string;
+  requestId: string;
+  state: HDUploadState;
+  sentChunks: number;
+  totalChunks: number;
+}
+
+interface HDUpload {
+  manifest: HDUploadManifest;
+  data: ArrayBuffer;
+  chunkChecksums: string[];
+  acknowledged: Set<number>;
+  state: HDUploadState;
+  restarts: number;
+  retries: number; // Reintentos seguidos sin avanzar con la conexión activa
+  retryTimer: any;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HdUploadService {
+  private uploads = new Map<string, HDUpload>();
+  private progress = new BehaviorSubject<HDUploadProgress[]>([]);
+  private config = { ...environment.hdUpload };
+
+  private readonly MAX_RESTARTS = 1; // Reenvíos completos si falla la verificación final
+  private readonly RETRY_DELAY = 2000; // ms antes del primer reintento; se duplica en cada uno
+
+  constructor(private transport: AnalysisTransport) {
+    // Reanudar subidas interrumpidas en cuanto vuelva la conexión
+    this.transport.isConnected$().subscribe(connected => {
+      if (connected) {
+        this.resumePausedUploads();
+      }
+    });
+  }
+
+  /**
+   * Subir imagen HD por chunks para OCR a resolución completa
+   */
+  async upload(requestId: string, hdImage: Blob): Promise<void> {
+    const imageId = `hd_${requestId}`;
+    if (this.uploads.has(imageId)) {
+      console.log(`ℹ️ Subida HD ${imageId} ya en curso`);
+      return;
+    }
+
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      console.error('❌ crypto.subtle no disponible: no se puede verificar la subida HD');
+      return;
+    }
+
+    const data = await hdImage.arrayBuffer();
+    const totalChunks = Math.ceil(data.byteLength / this.config.chunkSize);
+    const chunkChecksums = await Promise.all(
+      Array.from({ length: totalChunks }, (_, index) => this.sha256(this.sliceChunk(data, index)))
+    );
+
+    const upload: HDUpload = {
+      manifest: {
+        type: 'hd_start',
+        imageId,
+        requestId,
+        format: hdImage.type,
+        totalSize: data.byteLength,
+        chunkSize: this.config.chunkSize,
+        totalChunks,
+        checksum: await this.sha256(data)
+      },
+      data,
+      chunkChecksums,
+      acknowledged: new Set<number>(),
+      state: 'uploading',
+      restarts: 0,
+      retries: 0,
+      retryTimer: null
+    };
+
+    this.uploads.set(imageId, upload);
+    console.log(`📤 Iniciando subida HD ${imageId}: ${totalChunks} chunks (${(data.byteLength / 1024).toFixed(2)}KB)`);
+
+    await this.startUpload(upload);
+  }
+
+  /**
+   * Observable con el progreso de las subidas activas
+   */
+  get uploads$(): Observable<HDUploadProgress[]> {
+    return this.progress.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Anunciar la subida y enviar los chunks que el servidor no tenga
+   */
+  private async startUpload(upload: HDUpload): Promise<void> {
+    upload.state = 'uploading';
+    this.publishProgress();
+
+    const status = await this.transport.emitWithAck<HDUploadStatus>(
+      'hd-start', upload.manifest, this.config.ackTimeout
+    );
+
+    if (!status) {
+      this.pauseUpload(upload);
+      return;
+    }
+
+    if (!status.accepted) {
+      this.finishUpload(upload, 'failed', status.error);
+      return;
+    }
+
+    upload.acknowledged = new Set(status.receivedChunks);
+    await this.sendMissingChunks(upload);
+  }
+
+  /**
+   * Enviar en orden los chunks aún no confirmados
+   */
+  private async sendMissingChunks(upload: HDUpload): Promise<void> {
+    upload.state = 'uploading';
+
+    for (let index = 0; index < upload.manifest.totalChunks; index++) {
+      if (upload.acknowledged.has(index)) continue;
+
+      if (!await this.sendChunk(upload, index)) {
+        this.pauseUpload(upload);
+        return;
+      }
+
+      upload.acknowledged.add(index);
+      upload.retries = 0;
+      this.publishProgress();
+    }
+
+    await this.completeUpload(upload);
+  }
+
+  /**
+   * Enviar un chunk reintentando si el ack no llega o el checksum falla
+   */
+  private async sendChunk(upload: HDUpload, index: number): Promise<boolean> {
+    const chunk: HDImageChunk = {
+      type: 'hd_chunk',
+      chunkIndex: index,
+      totalChunks: upload.manifest.totalChunks,
+      imageId: upload.manifest.imageId,
+      data: this.sliceChunk(upload.data, index),
+      checksum: upload.chunkChecksums[index]
+    };
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      if (!this.transport.isConnected()) {
+        return false;
+      }
+
+      const ack = await this.transport.emitWithAck<HDChunkAck>('hd-chunk', chunk, this.config.ackTimeout);
+      if (ack?.ok) {
+        return true;
+      }
+
+      console.warn(`⚠️ Chunk ${index + 1}/${chunk.totalChunks} de ${chunk.imageId} sin confirmar (intento ${attempt})`);
+    }
+
+    return false;
+  }
+
+  /**
+   * Pedir al servidor que verifique la imagen reensamblada
+   */
+  private async completeUpload(upload: HDUpload): Promise<void> {
+    const ack = await this.transport.emitWithAck<HDCompleteAck>(
+      'hd-complete',
+      { imageId: upload.manifest.imageId, checksum: upload.manifest.checksum },
+      this.config.ackTimeout
+    );
+
+    if (!ack) {
+      this.pauseUpload(upload);
+      return;
+    }
+
+    if (ack.verified) {
+      this.finishUpload(upload, 'completed');
+      return;
+    }
+
+    if (upload.restarts < this.MAX_RESTARTS) {
+      upload.restarts++;
+      console.warn(`🔁 Checksum HD no coincide para ${upload.manifest.imageId}, reenviando completa`);
+      await this.startUpload(upload);
+    } else {
+      this.finishUpload(upload, 'failed', 'checksum de la imagen no coincide');
+    }
+  }
+
+  /**
+   * Reanudar subidas pausadas por desconexión
+   */
+  private async resumePausedUploads(): Promise<void> {
+    const paused = Array.from(this.uploads.values()).filter(upload => upload.state === 'paused');
+
+    for (const upload of paused) {
+      clearTimeout(upload.retryTimer);
+      await this.resumeUpload(upload);
+    }
+  }
+
+  /**
+   * Preguntar al servidor qué chunks tiene y enviar el resto
+   */
+  private async resumeUpload(upload: HDUpload): Promise<void> {
+    upload.state = 'uploading';
+    console.log(`▶️ Reanudando subida HD ${upload.manifest.imageId}`);
+
+    const status = await this.transport.emitWithAck<HDUploadStatus>(
+      'hd-resume', { imageId: upload.manifest.imageId }, this.config.ackTimeout
+    );
+
+    if (!status) {
+      this.pauseUpload(upload);
+    } else if (!status.accepted) {
+      // El servidor perdió la subida: empezar de nuevo
+      await this.startUpload(upload);
+    } else {
+      upload.acknowledged = new Set(status.receivedChunks);
+      await this.sendMissingChunks(upload);
+    }
+  }
+
+  /**
+   * Pausar la subida. Sin conexión se reanuda al reconectar; con conexión
+   * (el servidor no confirmó) se reintenta con espera exponencial y tras
+   * `maxRetries` reintentos sin avanzar se da por fallida y se libera la imagen.
+   */
+  private pauseUpload(upload: HDUpload): void {
+    upload.state = 'paused';
+    this.publishProgress();
+
+    if (!this.transport.isConnected()) {
+      console.warn(`⏸️ Subida HD ${upload.manifest.imageId} pausada (${upload.acknowledged.size}/${upload.manifest.totalChunks} chunks)`);
+      return;
+    }
+
+    if (upload.retries >= this.config.maxRetries) {
+      this.finishUpload(upload, 'failed', `sin confirmación del servidor tras ${upload.retries} reintentos`);
+      return;
+    }
+
+    const delay = this.RETRY_DELAY * 2 ** upload.retries;
+    upload.retries++;
+    clearTimeout(upload.retryTimer);
+    upload.retryTimer = setTimeout(() => {
+      if (upload.state === 'paused' && this.uploads.get(upload.manifest.imageId) === upload) {
+        this.resumeUpload(upload).catch(error => console.error(`❌ Error reintentando subida HD ${upload.manifest.imageId}:`, error));
+      }
+    }, delay);
+    console.warn(
+      `⏸️ Subida HD ${upload.manifest.imageId} pausada (${upload.acknowledged.size}/${upload.manifest.totalChunks} chunks), ` +
+      `reintento ${upload.retries} en ${(delay / 1000).toFixed(0)}s`
+    );
+  }
+
+  private finishUpload(upload: HDUpload, state: 'completed' | 'failed', error?: string): void {
+    clearTimeout(upload.retryTimer);
+    upload.state = state;
+    this.uploads.delete(upload.manifest.imageId);
+    this.publishProgress();
+
+    if (state === 'completed') {
+      console.log(`✅ Subida HD ${upload.manifest.imageId} completada y verificada`);
+    } else {
+      console.error(`❌ Subida HD ${upload.manifest.imageId} fallida: ${error ?? 'rechazada por el servidor'}`);
+    }
+  }
+
+  private publishProgress(): void {
+    this.progress.next(Array.from(this.uploads.values()).map(upload => ({
+      imageId: upload.manifest.imageId,
+      requestId: upload.manifest.requestId,
+      state: upload.state,
+      sentChunks: upload.acknowledged.size,
+      totalChunks: upload.manifest.totalChunks
+    })));
+  }
+
+  private sliceChunk(data: ArrayBuffer, index: number): ArrayBuffer {
+    const start = index * this.config.chunkSize;
+    return data.slice(start, Math.min(start + this.config.chunkSize, data.byteLength));
+  }
+
+  private async sha256(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
@@ -0,0 +1,233 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { BehaviorSubject, Observable, Subject, firstValueFrom, timeout as withTimeout } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { AnalysisAck, EncodedImage, PlateDetectionResult } from '../interfaces/plate-detection.interface';
+import { AnalysisTransport, FrameMetadata } from '../core/abstractions/analysis-transport.abstract';
+import { BackendRegistryService } from './backend-registry.service';
+import { AuthService } from './auth.service';
+import { ProtocolService } from './protocol.service';
+
+/**
+ * Transporte HTTP (POST multipart) para redes sin WebSocket o backends solo REST
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HttpTransportService extends AnalysisTransport {
+  private connected = new BehaviorSubject<boolean>(false);
+  private messages = new Subject<PlateDetectionResult | null>();
+  private failures = new Subject<string>();
+
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 5;
+  private manualDisconnect = false;
+  private reconnectTimer: any;
+  private readonly ANALYSIS_TIMEOUT = 10000; // La respuesta HTTP trae el resultado completo
+  private readonly ACK_TIMEOUT = 5000;
+  private isBrowser: boolean;
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    private http: HttpClient,
+    private backendRegistry: BackendRegistryService,
+    private authService: AuthService,
+    private protocolService: ProtocolService
+  ) {
+    super();
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  connect(): void {
+    this.manualDisconnect = false;
+    this.reconnectAttempts = 0;
+    this.probe();
+  }
+
+  /**
+   * Enviar imagen como multipart; el cuerpo de la respuesta es el resultado del análisis
+   */
+  async sendImageForAnalysis(image: EncodedImage, frame: FrameMetadata): Promise<AnalysisAck | null> {
+    const { requestId } = frame;
+
+    if (!this.isConnected()) {
+      console.error('❌ HTTP no conectado');
+      return null;
+    }
+
+    let payload;
+    try {
+      payload = await this.buildImagePayload(image, frame, this.authService.clientId);
+    } catch (error) {
+      console.error('❌ Error leyendo archivo:', error);
+      return null;
+    }
+
+    const { data, ...metadata } = payload;
+    const form = new FormData();
+    form.append('image', image.blob, `${requestId}.${metadata.format.split('/')[1] ?? 'bin'}`);
+    form.append('metadata', JSON.stringify(metadata));
+
+    console.log(`📤 Enviando imagen ${metadata.format} vía HTTP [${requestId}]: ${data.length} bytes`);
+
+    try {
+      const result = await firstValueFrom(
+        this.http.post<unknown>(`${this.backendRegistry.activeUrl}/api/analyze`, form, { headers: this.authHeaders() })
+          .pipe(withTimeout(this.ANALYSIS_TIMEOUT))
+      );
+      // La respuesta corresponde a esta petición aunque el backend no repita el requestId
+      const body = typeof result === 'object' && result !== null
+        ? {
+          ...result,
+          requestId: (result as Record<string, unknown>)['requestId'] ?? requestId,
+          streamId: (result as Record<string, unknown>)['streamId'] ?? frame.streamId
+        }
+        : result;
+      this.messages.next(this.protocolService.parseResult(body, 'http'));
+      return { requestId, accepted: true };
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 401) {
+        this.handleUnauthorized();
+        return null;
+      }
+      if (error instanceof HttpErrorResponse && error.status >= 400 && error.status < 500) {
+        return { requestId, accepted: false, error: error.error?.error ?? error.message };
+      }
+      this.handleRequestError(error);
+      return null;
+    }
+  }
+
+  /**
+   * Enviar evento como POST; el cuerpo de la respuesta es el ack
+   */
+  async emitWithAck<T>(event: string, payload: any, timeout: number = this.ACK_TIMEOUT, fallback?: T): Promise<T | null> {
+    if (!this.isConnected()) {
+      return null;
+    }
+
+    try {
+      const response = await firstValueFrom(
+        this.http.post<T>(`${this.backendRegistry.activeUrl}/api/events/${event}`, this.toFormData(payload), {
+          headers: this.authHeaders()
+        })
+          .pipe(withTimeout(timeout))
+      );
+      return response ?? fallback ?? null;
+    } catch (error) {
+      this.handleRequestError(error);
+      return null;
+    }
+  }
+
+  handleAnalysisResult(): Observable<PlateDetectionResult | null> {
+    return this.messages.asObservable();
+  }
+
+  isConnected(): boolean {
+    return this.connected.value;
+  }
+
+  isConnected$(): Observable<boolean> {
+    return this.connected.asObservable();
+  }
+
+  connectionFailed$(): Observable<string> {
+    return this.failures.asObservable();
+  }
+
+  disconnect(): void {
+    this.manualDisconnect = true;
+    clearTimeout(this.reconnectTimer);
+    this.connected.next(false);
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Comprobar que el backend responde antes de darlo por conectado
+   */
+  private async probe(): Promise<void> {
+    if (!this.isBrowser) {
+      console.log('🚫 HTTP deshabilitado en entorno SSR');
+      return;
+    }
+
+    try {
+      await firstValueFrom(this.http.get(`${this.backendRegistry.activeUrl}/health`).pipe(withTimeout(this.ACK_TIMEOUT)));
+      if (this.manualDisconnect) return;
+
+      console.log('🔗 Backend HTTP disponible');
+      this.reconnectAttempts = 0;
+      this.connected.next(true);
+    } catch (error) {
+      console.warn('⚠️ Backend HTTP no responde:', error);
+      this.attemptReconnect();
+    }
+  }
+
+  private attemptReconnect(): void {
+    if (this.manualDisconnect) return;
+
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      console.log(`🔄 Reintentando backend HTTP... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+      this.reconnectTimer = setTimeout(() => this.probe(), 2000 * this.reconnectAttempts);
+    } else {
+      console.error('❌ Máximo de intentos de reconexión HTTP alcanzado');
+      this.failures.next('Backend HTTP no disponible');
+    }
+  }
+
+  /**
+   * Un error de red (no de aplicación) significa que perdimos el backend
+   */
+  private handleRequestError(error: unknown): void {
+    console.error('❌ Error en petición HTTP:', error);
+
+    if (error instanceof HttpErrorResponse && error.status === 401) {
+      this.handleUnauthorized();
+      return;
+    }
+
+    const isNetworkError = !(error instanceof HttpErrorResponse) || error.status === 0 || error.status >= 500;
+    if (isNetworkError && this.connected.value) {
+      console.log('📵 Backend HTTP perdido');
+      this.connected.next(false);
+      this.attemptReconnect();
+    }
+  }
+
+  /**
+   * Credenciales inválidas: no reintentar, pedir login
+   */
+  private handleUnauthorized(): void {
+    this.manualDisconnect = true;
+    clearTimeout(this.reconnectTimer);
+    this.connected.next(false);
+    this.authService.handleUnauthorized('petición HTTP rechazada (401)');
+  }
+
+  private authHeaders(): HttpHeaders {
+    return new HttpHeaders({ Authorization: `Bearer ${this.authService.token ?? ''}` });
+  }
+
+  /**
+   * Los campos binarios van como partes del multipart y el resto como JSON
+   */
+  private toFormData(payload: any): FormData {
+    const form = new FormData();
+    const json: Record<string, unknown> = {};
+
+    Object.entries(payload ?? {}).forEach(([key, value]) => {
+      if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        form.append(key, new Blob([value]));
+      } else {
+        json[key] = value;
+      }
+    });
+
+    form.append('payload', JSON.stringify(json));
+    return form;
+  }
+}
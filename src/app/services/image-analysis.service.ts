@@ -1,8 +1,23 @@
 import { Injectable } from '@angular/core';
-import { Observable, BehaviorSubject } from 'rxjs';
-import { CameraService } from './camera.service';
-import { SocketService } from './socket.service';
-import { PlateDetectionResult } from '../interfaces/plate-detection.interface';
+import { Observable, BehaviorSubject, Subject } from 'rxjs';
+import { CameraService, CameraStatistics } from '../core/abstractions/camera.abstract';
+import { AnalysisTransport, FrameMetadata } from '../core/abstractions/analysis-transport.abstract';
+import { StorageService } from './storage.service';
+import { OfflineQueueService } from './offline-queue.service';
+import { CaptureSchedulerService } from './capture-scheduler.service';
+import { HdUploadService } from './hd-upload.service';
+import { ProtocolService } from './protocol.service';
+import { ConnectionQualityService } from './connection-quality.service';
+import {
+  AnalysisAck,
+  AnalysisResultEvent,
+  DetectionErrorResult,
+  EncodedImage,
+  DetectionResult,
+  FrameQuality,
+  HDDetectionResult,
+  PlateDetectionResult
+} from '../interfaces/plate-detection.interface';
 
 interface AnalysisStats {
   imagesAnalyzed: number;
@@ -10,6 +25,41 @@ interface AnalysisStats {
   averageProcessingTime: number;
   lastAnalysisTime: number;
   isAnalyzing: boolean;
+  inFlightRequests: number;
+  timedOutRequests: number;
+  failedAnalyses: number; // Errores de análisis reportados por el servidor
+}
+
+// Estadísticas de análisis de un stream (carril)
+export interface StreamAnalysisStats {
+  streamId: string;
+  imagesAnalyzed: number;
+  platesDetected: number;
+  failedAnalyses: number;
+  lastResultTime: number;
+}
+
+interface InFlightRequest {
+  requestId: string;
+  streamId: string;
+  capturedAt: number;
+  sentAt: number;
+  hdImage: HDImageSource | null; // Imagen HD de un frame externo (las de cámara están en el buffer HD)
+  source?: string; // Origen del frame si no viene de la cámara (archivo, segundo del video)
+  quality?: FrameQuality; // Calidad medida al elegir el frame de la ráfaga
+  settle?: (result: DetectionResult | null) => void; // Quien espera el resultado de este frame
+  timeoutHandle: any;
+}
+
+// Imagen HD ya codificada, o función que la codifica solo si el resultado la necesita
+export type HDImageSource = Blob | (() => Promise<Blob>);
+
+// Frame de una fuente distinta a la cámara (archivos grabados)
+export interface ExternalFrame {
+  streamId: string;
+  source: string;
+  thumbnail: EncodedImage;
+  hdImage: HDImageSource | null;
 }
 
 @Injectable({
@@ -22,7 +72,10 @@ export class ImageAnalysisService {
     platesDetected: 0,
     averageProcessingTime: 0,
     lastAnalysisTime: 0,
-    isAnalyzing: false
+    isAnalyzing: false,
+    inFlightRequests: 0,
+    timedOutRequests: 0,
+    failedAnalyses: 0
   });
 
   private stats: AnalysisStats = {
@@ -30,40 +83,73 @@ export class ImageAnalysisService {
     platesDetected: 0,
     averageProcessingTime: 0,
     lastAnalysisTime: 0,
-    isAnalyzing: false
+    isAnalyzing: false,
+    inFlightRequests: 0,
+    timedOutRequests: 0,
+    failedAnalyses: 0
   };
 
-  private videoElement: HTMLVideoElement | null = null;
+  private streamStats = new Map<string, StreamAnalysisStats>();
+  private streamStatsSubject = new BehaviorSubject<StreamAnalysisStats[]>([]);
   private processingTimes: number[] = [];
+  private inFlight = new Map<string, InFlightRequest>();
+  private results = new Subject<AnalysisResultEvent>();
+  private lastDisplayedCapture = new Map<string, number>(); // Por stream
+  private isReplaying = false;
+
+  private readonly ANALYSIS_TIMEOUT = 10000; // Tiempo máximo esperando resultado
+  private readonly REPLAY_POLL_INTERVAL = 250; // ms entre comprobaciones de hueco para reenviar
 
   constructor(
     private cameraService: CameraService,
-    private socketService: SocketService
+    private transport: AnalysisTransport,
+    private storageService: StorageService,
+    private offlineQueue: OfflineQueueService,
+    private scheduler: CaptureSchedulerService,
+    private hdUploadService: HdUploadService,
+    private protocolService: ProtocolService,
+    private connectionQuality: ConnectionQualityService
   ) {
+    this.cameraService.streamConfigs.forEach(({ id }) => {
+      this.statsFor(id);
+    });
+    this.publishStreamStats();
+
     // Escuchar resultados de análisis
-    this.socketService.handleAnalysisResult().subscribe(result => {
+    this.transport.handleAnalysisResult().subscribe(result => {
       if (result) {
         this.handleAnalysisResult(result);
       }
     });
+
+    // Reenviar frames encolados en cuanto vuelva la conexión
+    this.transport.isConnected$().subscribe(connected => {
+      if (connected) {
+        this.replayOfflineQueue();
+      }
+    });
   }
 
   /**
-   * Inicializar análisis en tiempo real
+   * Inicializar análisis en tiempo real en todos los streams configurados
+   * (o solo en los indicados); comparten la misma sesión del transporte
    */
-  async startRealTimeAnalysis(): Promise<void> {
+  async startRealTimeAnalysis(streamIds: string[] = this.cameraService.streamConfigs.map(({ id }) => id)): Promise<void> {
     try {
-      console.log('🚀 Iniciando análisis en tiempo real...');
-      
-      // Inicializar cámara
-      this.videoElement = await this.cameraService.initializeCamera();
+      console.log(`🚀 Iniciando análisis en tiempo real (${streamIds.join(', ')})...`);
       
-      // Configurar captura con análisis vía Socket.IO
-      this.cameraService.startCapture(
-        this.videoElement,
-        (thumbnail: Blob) => this.analyzeThumbnail(thumbnail),
-        (hdImage: Blob) => this.handleHDImage(hdImage)
-      );
+      for (const streamId of streamIds) {
+        // Inicializar cámara del stream (reutiliza la del preview si ya está abierta)
+        const videoElement = await this.cameraService.initializeCamera(streamId);
+        
+        // Configurar captura con análisis vía el transporte activo
+        this.cameraService.startCapture(
+          videoElement,
+          (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) =>
+            this.analyzeThumbnail(thumbnail, captureId, streamId, quality),
+          streamId
+        );
+      }
 
       this.analysisActive.next(true);
       this.stats.isAnalyzing = true;
@@ -91,37 +177,176 @@ export class ImageAnalysisService {
   }
 
   /**
-   * Analizar thumbnail vía Socket.IO
+   * Analizar un frame que no viene de la cámara. Pasa por la misma correlación,
+   * timeouts y estadísticas que el tiempo real, bajo el streamId de la fuente,
+   * y resuelve con su resultado (null si el servidor falló o no respondió).
+   */
+  analyzeExternalFrame(frame: ExternalFrame): Promise<DetectionResult | null> {
+    const requestId = `${frame.streamId}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    return new Promise(resolve => {
+      this.dispatchThumbnail(
+        frame.thumbnail,
+        { requestId, streamId: frame.streamId, capturedAt: Date.now(), replayed: false },
+        { hdImage: frame.hdImage, source: frame.source, settle: resolve }
+      ).catch(error => {
+        console.error(`❌ Error analizando frame ${requestId}:`, error);
+        this.completeRequest(requestId); // Resuelve con null
+      });
+    });
+  }
+
+  /**
+   * Analizar thumbnail vía el transporte activo (o encolarlo si no hay conexión)
    */
-  private analyzeThumbnail(thumbnail: Blob): void {
-    const startTime = Date.now();
+  private analyzeThumbnail(thumbnail: EncodedImage, requestId: string, streamId: string, quality: FrameQuality | null): void {
+    const capturedAt = Date.now();
     
     // 💾 DESCARGA AUTOMÁTICA: Guardar imagen 300x300 procesada
-    this.cameraService.saveProcessedImage(thumbnail)
+    this.cameraService.saveProcessedImage(thumbnail.blob)
       .then(() => console.log('💾 Imagen 300x300 descargada automáticamente'))
       .catch(error => console.error('❌ Error descargando imagen 300x300:', error));
-    
-    this.socketService.sendImageForAnalysis(thumbnail);
-    
+
+    if (!this.transport.isConnected()) {
+      this.offlineQueue.enqueue({ requestId, streamId, capturedAt, blob: thumbnail.blob, encoding: thumbnail.encoding });
+      return;
+    }
+
+    this.dispatchThumbnail(
+      thumbnail,
+      { requestId, streamId, capturedAt, replayed: false },
+      { hdImage: null, quality: quality ?? undefined }
+    ).catch(error => console.error(`❌ Error analizando frame ${requestId}:`, error));
+  }
+
+  /**
+   * Registrar petición en vuelo y enviarla
+   */
+  private async dispatchThumbnail(
+    thumbnail: EncodedImage,
+    frame: FrameMetadata,
+    extras: Pick<InFlightRequest, 'hdImage' | 'source' | 'quality' | 'settle'> = { hdImage: null }
+  ): Promise<AnalysisAck | null> {
+    const { requestId, streamId, capturedAt } = frame;
+    const sentAt = Date.now();
+
+    this.inFlight.set(requestId, {
+      requestId,
+      streamId,
+      capturedAt,
+      sentAt,
+      ...extras,
+      timeoutHandle: setTimeout(() => this.handleRequestTimeout(requestId), this.ANALYSIS_TIMEOUT)
+    });
+    this.scheduler.requestSent(requestId, frame.replayed);
+
     this.stats.imagesAnalyzed++;
-    this.stats.lastAnalysisTime = startTime;
+    this.stats.lastAnalysisTime = sentAt;
+    this.statsFor(streamId).imagesAnalyzed++;
     this.updateStats();
+
+    let ack: AnalysisAck | null;
+    try {
+      ack = await this.transport.sendImageForAnalysis(thumbnail, frame);
+    } catch (error) {
+      console.error(`❌ Error enviando frame ${requestId}:`, error);
+      ack = null;
+    }
+    this.connectionQuality.recordUpload(thumbnail.blob.size, ack ? Date.now() - sentAt : null);
+
+    // Sin ack o rechazado: liberar el hueco ya, sin esperar al timeout del análisis
+    if (!ack || !ack.accepted) {
+      console.warn(`⚠️ Frame ${requestId} ${ack ? `rechazado por el servidor: ${ack.error ?? 'sin motivo'}` : 'sin confirmación del servidor'}`);
+      this.completeRequest(requestId);
+      this.scheduler.requestFailed(requestId);
+      this.updateStats();
+    }
+    return ack;
   }
 
   /**
-   * Manejar imagen HD (guardar si se detecta placa)
+   * Reenviar en orden de captura los frames acumulados sin conexión
    */
-  private handleHDImage(hdImage: Blob): void {
-    // Por ahora solo la almacenamos, se guardará si se detecta placa
-    // En el futuro se podría implementar guardado automático
-    console.log('📸 Imagen HD capturada (disponible para guardar)');
+  private async replayOfflineQueue(): Promise<void> {
+    if (this.isReplaying) return;
+    this.isReplaying = true;
+
+    try {
+      const frames = await this.offlineQueue.getPending();
+      if (frames.length === 0) return;
+
+      console.log(`🔁 Reenviando ${frames.length} frames de la cola offline...`);
+
+      for (const frame of frames) {
+        // Reenviar al ritmo en que el backend responde, sin quitar huecos a la captura en vivo
+        while (this.transport.isConnected() && !this.scheduler.canReplay()) {
+          await new Promise(resolve => setTimeout(resolve, this.REPLAY_POLL_INTERVAL));
+        }
+
+        if (!this.transport.isConnected()) {
+          console.warn('⚠️ Conexión perdida durante el reenvío, se reanudará al reconectar');
+          break;
+        }
+
+        const ack = await this.dispatchThumbnail(
+          { blob: frame.blob, encoding: frame.encoding },
+          { requestId: frame.requestId, streamId: frame.streamId, capturedAt: frame.capturedAt, replayed: true }
+        );
+        if (!ack) {
+          // Sin confirmación: se conserva en la cola para el próximo intento
+          break;
+        }
+        await this.offlineQueue.remove(frame.requestId);
+      }
+    } finally {
+      this.isReplaying = false;
+    }
   }
 
   /**
-   * Manejar resultado del análisis
+   * Despachar cada mensaje del servidor según su tipo
    */
   private handleAnalysisResult(result: PlateDetectionResult): void {
-    const processingTime = Date.now() - this.stats.lastAnalysisTime;
+    switch (result.type) {
+      case 'thumbnail_result':
+      case 'analysis_result':
+        this.handleDetectionResult(result);
+        break;
+      case 'thumbnail_error':
+      case 'analysis_error':
+        this.handleDetectionError(result);
+        break;
+      case 'hd_result':
+      case 'hd_error':
+        this.handleHDResult(result);
+        break;
+      case 'connection_established':
+      case 'socket_connected':
+        console.log(`🤝 Servidor listo${result.clientId ? ` (cliente ${result.clientId})` : ''}`);
+        break;
+    }
+  }
+
+  /**
+   * Manejar resultado del análisis de un thumbnail
+   */
+  private handleDetectionResult(result: DetectionResult): void {
+    const request = this.completeRequest(this.resolveRequestId(result.requestId), result);
+
+    if (!request) {
+      // Resultados tardíos que ya expiraron
+      console.warn(`⚠️ Resultado sin petición en vuelo: ${result.requestId ?? 'sin requestId'}`);
+      return;
+    }
+
+    if (result.streamId !== undefined && result.streamId !== request.streamId) {
+      console.warn(`⚠️ Resultado de ${request.requestId} etiquetado con stream ${result.streamId}, se esperaba ${request.streamId}`);
+    }
+
+    const processingTime = Date.now() - request.sentAt;
+    this.scheduler.requestCompleted(request.requestId, processingTime);
+    const streamStats = this.statsFor(request.streamId);
+    streamStats.lastResultTime = Date.now();
     
     // Actualizar estadísticas de tiempo de procesamiento
     this.processingTimes.push(processingTime);
@@ -135,20 +360,227 @@ export class ImageAnalysisService {
     // Si se detectó una placa
     if (result.hasPlate) {
       this.stats.platesDetected++;
-      this.cameraService.incrementPlateDetection();
+      streamStats.platesDetected++;
+      this.cameraService.incrementPlateDetection(request.streamId);
       
-      console.log(`🎯 Placa detectada! Confianza: ${result.confidence}`);
+      console.log(`🎯 Placa detectada [${request.streamId}/${request.requestId}]! Confianza: ${result.confidence}`);
       console.log(`📊 Total placas detectadas: ${this.stats.platesDetected}`);
     }
 
+    if (result.hasPlate || result.requestHD) {
+      this.handleHDForResult(request, result)
+        .catch(error => console.error(`❌ Error guardando imágenes HD de ${request.requestId}:`, error));
+    }
+
+    // Descartar resultados que llegan desordenados respecto a lo ya mostrado en su stream
+    if (request.capturedAt >= (this.lastDisplayedCapture.get(request.streamId) ?? 0)) {
+      this.lastDisplayedCapture.set(request.streamId, request.capturedAt);
+      this.results.next({
+        requestId: request.requestId,
+        streamId: request.streamId,
+        result,
+        capturedAt: request.capturedAt,
+        latency: processingTime
+      });
+    }
+
+    this.updateStats();
+  }
+
+  /**
+   * Guardar las imágenes HD de una captura con placa y/o subirla si el backend la pide
+   */
+  private async handleHDForResult(request: InFlightRequest, result: DetectionResult): Promise<void> {
+    // Con placa se toma una foto real del sensor; el frame del stream queda de respaldo
+    const photo = result.hasPlate ? await this.captureHDPhoto(request) : null;
+
+    if (result.hasPlate) {
+      if (request.source === undefined) {
+        this.saveDetectionClip(request, result); // Termina tras el post-roll del clip
+      }
+      await this.saveDetectionImages(request, result, photo);
+    }
+
+    // El backend pide la imagen completa de esta captura para OCR en alta resolución
+    if (result.requestHD) {
+      const hdImage = photo ?? await this.bufferedHDImage(request);
+      if (hdImage) {
+        this.hdUploadService.upload(request.requestId, hdImage)
+          .catch(error => console.error(`❌ Error subiendo imagen HD de ${request.requestId}:`, error));
+      } else {
+        console.warn(`⚠️ El servidor pidió HD de ${request.requestId} pero no hay frame HD disponible`);
+      }
+    }
+  }
+
+  /**
+   * Guardar la foto del sensor y los frames del buffer HD alrededor de la detección
+   * (pre-roll, la captura y post-roll); los frames externos guardan su propia imagen
+   */
+  private async saveDetectionImages(request: InFlightRequest, result: DetectionResult, photo: Blob | null): Promise<void> {
+    const save = (image: Blob, quality?: FrameQuality, frameOffset?: number) =>
+      this.storageService.saveHDImageInMemory(
+        image,
+        result.plates,
+        result.vehicleColor,
+        result.vehicleDescription,
+        request.source,
+        quality,
+        { captureId: request.requestId, frameOffset }
+      );
+
+    if (request.source !== undefined) {
+      const hdImage = await this.externalHDImage(request);
+      if (hdImage) {
+        save(hdImage);
+      }
+      return;
+    }
+
+    if (photo) {
+      save(photo);
+    }
+
+    const frames = await this.cameraService.getFramesAround(request.requestId, request.streamId);
+    frames.forEach(frame => save(frame.blob, frame.quality ?? undefined, frame.offset));
+    console.log(`🎞️ Guardados ${frames.length} frames HD alrededor de ${request.requestId}${photo ? ' + foto del sensor' : ''}`);
+  }
+
+  /**
+   * Clip de video alrededor de la detección, enlazado a sus imágenes
+   */
+  private async saveDetectionClip(request: InFlightRequest, result: DetectionResult): Promise<void> {
+    try {
+      const clip = await this.cameraService.recordClip(request.streamId);
+      if (clip) {
+        this.storageService.saveClip(clip, 'detection', request.requestId, result.plates);
+      }
+    } catch (error) {
+      console.error(`❌ Error guardando clip de ${request.requestId}:`, error);
+    }
+  }
+
+  /**
+   * Foto a resolución de sensor (ImageCapture); null si el navegador no la
+   * soporta o la captura no viene de una cámara
+   */
+  private async captureHDPhoto(request: InFlightRequest): Promise<Blob | null> {
+    if (request.source !== undefined) {
+      return null;
+    }
+    return this.cameraService.takePhoto(request.streamId);
+  }
+
+  /**
+   * Imagen HD de la propia captura: la del frame externo o la del buffer HD
+   */
+  private async bufferedHDImage(request: InFlightRequest): Promise<Blob | null> {
+    if (request.source !== undefined) {
+      return this.externalHDImage(request);
+    }
+
+    const frame = await this.cameraService.getBufferedFrame(request.requestId, request.streamId);
+    return frame?.blob ?? null;
+  }
+
+  /**
+   * Imagen HD de un frame externo, codificándola la primera vez que se pide
+   */
+  private async externalHDImage(request: InFlightRequest): Promise<Blob | null> {
+    if (typeof request.hdImage === 'function') {
+      request.hdImage = await request.hdImage();
+    }
+    return request.hdImage;
+  }
+
+  /**
+   * El servidor no pudo analizar el frame: cuenta como fallo, no como resultado
+   */
+  private handleDetectionError(result: DetectionErrorResult): void {
+    const request = this.completeRequest(this.resolveRequestId(result.requestId));
+    console.error(`❌ Error de análisis [${request?.requestId ?? result.requestId ?? 'sin requestId'}]: ${result.error}`);
+
+    if (request) {
+      this.scheduler.requestFailed(request.requestId);
+      this.statsFor(request.streamId).failedAnalyses++;
+    }
+    this.stats.failedAnalyses++;
     this.updateStats();
   }
 
+  /**
+   * En protocolo v1 los resultados no traen requestId: corresponden
+   * a la petición más antigua en vuelo (el servidor responde en orden)
+   */
+  private resolveRequestId(requestId: string | undefined): string | undefined {
+    if (requestId !== undefined || !this.protocolService.legacyResults) {
+      return requestId;
+    }
+    return this.inFlight.keys().next().value;
+  }
+
+  /**
+   * Manejar resultado del OCR sobre la imagen HD subida por chunks
+   */
+  private handleHDResult(result: HDDetectionResult | DetectionErrorResult): void {
+    if (result.type !== 'hd_result') {
+      console.error(`❌ Error en análisis HD [${result.requestId}]: ${result.error}`);
+      return;
+    }
+
+    console.log(`🔍 Resultado HD [${result.requestId}]: ${result.plates.join(', ') || 'sin placas'}`);
+  }
+
+  /**
+   * Expirar petición sin resultado
+   */
+  private handleRequestTimeout(requestId: string): void {
+    if (!this.inFlight.has(requestId)) return;
+
+    this.completeRequest(requestId);
+    this.scheduler.requestFailed(requestId);
+    this.stats.timedOutRequests++;
+    this.updateStats();
+    console.warn(`⏱️ Petición ${requestId} expirada tras ${this.ANALYSIS_TIMEOUT}ms`);
+  }
+
+  /**
+   * Retirar petición en vuelo y cancelar su timeout
+   */
+  private completeRequest(requestId: string | undefined, result: DetectionResult | null = null): InFlightRequest | null {
+    const request = requestId ? this.inFlight.get(requestId) : undefined;
+    if (!request) return null;
+
+    clearTimeout(request.timeoutHandle);
+    request.settle?.(result);
+    this.inFlight.delete(request.requestId);
+    this.stats.inFlightRequests = this.inFlight.size;
+    return request;
+  }
+
   /**
    * Actualizar estadísticas
    */
   private updateStats(): void {
+    this.stats.inFlightRequests = this.inFlight.size;
     this.analysisStats.next({ ...this.stats });
+    this.publishStreamStats();
+  }
+
+  /**
+   * Estadísticas del stream (se crean si el stream no estaba configurado)
+   */
+  private statsFor(streamId: string): StreamAnalysisStats {
+    let stats = this.streamStats.get(streamId);
+    if (!stats) {
+      stats = { streamId, imagesAnalyzed: 0, platesDetected: 0, failedAnalyses: 0, lastResultTime: 0 };
+      this.streamStats.set(streamId, stats);
+    }
+    return stats;
+  }
+
+  private publishStreamStats(): void {
+    this.streamStatsSubject.next(Array.from(this.streamStats.values(), stats => ({ ...stats })));
   }
 
   /**
@@ -166,16 +598,37 @@ export class ImageAnalysisService {
   }
 
   /**
-   * Observable del estado de conexión Socket.IO
+   * Observable de estadísticas de análisis por stream
+   */
+  get streamStats$(): Observable<StreamAnalysisStats[]> {
+    return this.streamStatsSubject.asObservable();
+  }
+
+  /**
+   * Observable de resultados correlacionados con su captura
+   */
+  get results$(): Observable<AnalysisResultEvent> {
+    return this.results.asObservable();
+  }
+
+  /**
+   * Observable con los frames pendientes en la cola offline
+   */
+  get offlineQueueDepth$(): Observable<number> {
+    return this.offlineQueue.depth$;
+  }
+
+  /**
+   * Observable del estado de conexión del transporte activo
    */
   get isConnected$(): Observable<boolean> {
-    return this.socketService.isConnected$();
+    return this.transport.isConnected$();
   }
 
   /**
    * Observable de estadísticas de cámara
    */
-  get cameraStats$(): Observable<any> {
+  get cameraStats$(): Observable<CameraStatistics> {
     return this.cameraService.stats$;
   }
 
@@ -195,12 +648,32 @@ export class ImageAnalysisService {
     console.log('💾 Funcionalidad de guardado manual pendiente de implementar');
   }
 
+  /**
+   * Guardar manualmente un clip del stream (incidencia sin placa detectada).
+   * Resuelve tras el post-roll; false si el stream no está grabando.
+   */
+  async saveManualClip(streamId: string = this.cameraService.defaultStreamId): Promise<boolean> {
+    const clip = await this.cameraService.recordClip(streamId);
+    if (!clip) {
+      console.warn(`⚠️ No hay grabación activa en [${streamId}]: inicia el análisis para guardar clips`);
+      return false;
+    }
+
+    this.storageService.saveClip(clip, 'manual');
+    return true;
+  }
+
   /**
    * Limpiar recursos
    */
   destroy(): void {
     this.stopRealTimeAnalysis();
+    this.inFlight.forEach(request => {
+      clearTimeout(request.timeoutHandle);
+      request.settle?.(null);
+    });
+    this.inFlight.clear();
     this.cameraService.stopCamera();
-    this.socketService.disconnect();
+    this.transport.disconnect();
   }
 }
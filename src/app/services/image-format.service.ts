@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { AnalysisTransport } from '../core/abstractions/analysis-transport.abstract';
+import { BrowserCapabilitiesService } from './browser-capabilities.service';
+import { ImageEncoding, ServerImageCapabilities } from '../interfaces/plate-detection.interface';
+
+export interface ImageFormatNegotiation {
+  server: ServerImageCapabilities;
+  negotiated: boolean; // false = el servidor no anunció capacidades y se usan las de siempre
+  selected: ImageEncoding;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageFormatService {
+  // Lo que aceptaba el backend antes de existir el handshake
+  private readonly LEGACY_CAPABILITIES: ServerImageCapabilities = {
+    formats: ['image/webp', 'image/jpeg'],
+    thumbnailWidth: 300,
+    thumbnailHeight: 300,
+    maxBytes: 15 * 1024
+  };
+  private readonly HANDSHAKE_TIMEOUT = 3000;
+
+  private server = this.LEGACY_CAPABILITIES;
+  private negotiation: BehaviorSubject<ImageFormatNegotiation>;
+
+  constructor(private browserCapabilities: BrowserCapabilitiesService) {
+    this.negotiation = new BehaviorSubject<ImageFormatNegotiation>({
+      server: this.server,
+      negotiated: false,
+      selected: this.selectEncoding()
+    });
+
+    // La detección de WebP es asíncrona: recalcular cuando termine
+    this.browserCapabilities.getCapabilities().subscribe(capabilities => {
+      if (capabilities) {
+        this.publish(this.negotiation.value.negotiated);
+      }
+    });
+  }
+
+  /**
+   * Pedir al servidor los formatos y tamaños que acepta
+   */
+  async negotiate(transport: AnalysisTransport): Promise<void> {
+    const offer = { formats: this.browserCapabilities.getSupportedImageFormats() };
+    const response = await transport.emitWithAck<ServerImageCapabilities>('image-capabilities', offer, this.HANDSHAKE_TIMEOUT);
+
+    if (!this.isValidCapabilities(response)) {
+      console.warn('⚠️ El servidor no anunció capacidades de imagen, se usa WebP/JPEG 300x300');
+      this.server = this.LEGACY_CAPABILITIES;
+      this.publish(false);
+      return;
+    }
+
+    this.server = response;
+    this.publish(true);
+
+    const selected = this.negotiation.value.selected;
+    console.log(`🖼️ Formato negociado: ${selected.format} ${selected.width}x${selected.height} ` +
+      `(servidor acepta ${response.formats.join(', ')}, máx ${(response.maxBytes / 1024).toFixed(0)}KB)`);
+  }
+
+  /**
+   * Mejor codificación que el navegador sabe producir y el servidor acepta
+   */
+  selectEncoding(): ImageEncoding {
+    const format = this.browserCapabilities.getSupportedImageFormats()
+      .find(candidate => this.accepts(candidate)) ?? 'image/jpeg';
+
+    return {
+      format,
+      quality: this.browserCapabilities.getOptimalQuality(format),
+      width: this.server.thumbnailWidth,
+      height: this.server.thumbnailHeight
+    };
+  }
+
+  /**
+   * El servidor acepta este MIME
+   */
+  accepts(format: string): boolean {
+    return this.server.formats.includes(format);
+  }
+
+  /**
+   * Tamaño máximo de thumbnail aceptado por el servidor
+   */
+  get maxBytes(): number {
+    return this.server.maxBytes;
+  }
+
+  /**
+   * Observable del resultado de la negociación
+   */
+  get negotiation$(): Observable<ImageFormatNegotiation> {
+    return this.negotiation.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private publish(negotiated: boolean): void {
+    this.negotiation.next({
+      server: this.server,
+      negotiated,
+      selected: this.selectEncoding()
+    });
+  }
+
+  private isValidCapabilities(response: ServerImageCapabilities | null): response is ServerImageCapabilities {
+    return !!response &&
+      Array.isArray(response.formats) && response.formats.length > 0 &&
+      response.formats.every(format => typeof format === 'string') &&
+      Number.isFinite(response.thumbnailWidth) && response.thumbnailWidth > 0 &&
+      Number.isFinite(response.thumbnailHeight) && response.thumbnailHeight > 0 &&
+      Number.isFinite(response.maxBytes) && response.maxBytes > 0;
+  }
+}
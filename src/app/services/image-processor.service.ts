@@ -1,11 +1,22 @@
 import { Injectable } from '@angular/core';
 import * as pica from 'pica';
+import { WebPDetectionService } from './webp-detection.service';
+import { EncodedImage, ImageEncoding } from '../interfaces/plate-detection.interface';
+import { ThumbnailPreprocessing, ThumbnailWorkerRequest, ThumbnailWorkerResponse } from '../interfaces/thumbnail-worker.interface';
 
 export interface ProcessingOptions {
   targetWidth: number;
   targetHeight: number;
   quality: number;
-  format: 'jpeg' | 'png' | 'webp';
+  format: string; // MIME solicitado
+}
+
+// Región del frame original (en píxeles) a conservar antes de redimensionar
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface ProcessingStats {
@@ -16,6 +27,13 @@ export interface ProcessingStats {
   blobSize: number;
 }
 
+// Trabajo enviado al worker de thumbnails, pendiente de respuesta
+interface PendingThumbnailJob {
+  resolve: (thumbnail: EncodedImage) => void;
+  reject: (error: Error) => void;
+  timeout: any;
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -25,30 +43,80 @@ export class ImageProcessorService {
   private ctx!: CanvasRenderingContext2D;
   private stats: ProcessingStats | null = null;
 
-  constructor() {
+  // Worker de thumbnails (OffscreenCanvas); null = aún no creado o hilo principal
+  private worker: Worker | null = null;
+  private workerDisabled = false;
+  private workerJobs = new Map<number, PendingThumbnailJob>();
+  private nextJobId = 0;
+  private workerFailures = 0; // Fallos seguidos de trabajos del worker
+  private readonly WORKER_TIMEOUT = 5000; // ms; después se procesa en el hilo principal
+  private readonly MAX_WORKER_FAILURES = 3; // Fallos seguidos antes de dejar de usar el worker
+
+  private readonly DEFAULT_PREPROCESSING: ThumbnailPreprocessing = { brightness: 1, contrast: 1, unsharpAmount: 80, unsharpRadius: 0.6 };
+
+  constructor(private webpDetection: WebPDetectionService) {
     this.initializePica();
     this.createOptimizedCanvas();
   }
 
   /**
-   * Procesar imagen a 300x300 píxeles
+   * Procesar imagen al tamaño y formato negociados (300x300 WebP por defecto).
+   * Con `crop` solo se usa esa región del frame (ROI del operador) y
+   * `preprocessing` ajusta brillo, contraste y enfoque al perfil de escena.
+   * Si el navegador tiene OffscreenCanvas el redimensionado y la compresión
+   * se hacen en un Web Worker; si no (o si el worker falla con ese frame), en el hilo principal.
+   */
+  async processImageTo300x300(
+    source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap,
+    encoding: ImageEncoding = { format: 'image/webp', quality: 0.75, width: 300, height: 300 },
+    maxBytes: number = 15 * 1024,
+    crop: CropRect | null = null,
+    preprocessing: ThumbnailPreprocessing = this.DEFAULT_PREPROCESSING
+  ): Promise<EncodedImage> {
+    const worker = await this.thumbnailWorker();
+    if (worker) {
+      try {
+        return await this.processInWorker(worker, source, encoding, maxBytes, crop, preprocessing);
+      } catch (error) {
+        console.warn('⚠️ Worker de thumbnails falló, el frame se procesa en el hilo principal:', error);
+        // Un fallo suelto (frame corrupto, worker ocupado) no justifica abandonar el worker
+        if (!this.workerDisabled && ++this.workerFailures >= this.MAX_WORKER_FAILURES) {
+          console.error(`❌ ${this.workerFailures} fallos seguidos del worker de thumbnails, se pasa al hilo principal`);
+          this.disableWorker();
+        }
+      }
+    }
+
+    return this.processOnMainThread(source, encoding, maxBytes, crop, preprocessing);
+  }
+
+  /**
+   * Pipeline completo en el hilo principal (Pica + canvas.toBlob)
    */
-  async processImageTo300x300(source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap): Promise<Blob> {
+  private async processOnMainThread(
+    source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap,
+    encoding: ImageEncoding,
+    maxBytes: number,
+    crop: CropRect | null,
+    preprocessing: ThumbnailPreprocessing
+  ): Promise<EncodedImage> {
     const startTime = performance.now();
     
     try {
       console.log('🔄 Iniciando procesamiento de imagen...');
 
       const options: ProcessingOptions = {
-        targetWidth: 300,
-        targetHeight: 300,
-        quality: 0.75, // Compresión agresiva para objetivo < 15KB
-        format: 'webp'
+        targetWidth: encoding.width,
+        targetHeight: encoding.height,
+        quality: encoding.quality,
+        format: encoding.format
       };
 
-      // Crear ImageBitmap si la fuente es un video element
+      // Crear ImageBitmap si la fuente es un video element (recortado a la ROI si la hay)
       let sourceBitmap: ImageBitmap;
-      if (source instanceof HTMLVideoElement) {
+      if (crop) {
+        sourceBitmap = await createImageBitmap(source, crop.x, crop.y, crop.width, crop.height);
+      } else if (source instanceof HTMLVideoElement) {
         sourceBitmap = await createImageBitmap(source);
       } else if (source instanceof HTMLCanvasElement) {
         sourceBitmap = await createImageBitmap(source);
@@ -57,24 +125,24 @@ export class ImageProcessorService {
       }
 
       // Redimensionar usando Pica
-      const resizedCanvas = await this.resizeImageBitmap(sourceBitmap, options.targetWidth, options.targetHeight);
+      const resizedCanvas = await this.resizeImageBitmap(sourceBitmap, options.targetWidth, options.targetHeight, preprocessing);
       
-      // Comprimir a WebP
-      const blob = await this.compressToWebP(resizedCanvas, options.quality);
+      // Comprimir al formato elegido (con fallback a JPEG)
+      const encoded = await this.compressToFormat(resizedCanvas, options.format, options.quality, maxBytes);
 
       // Calcular estadísticas
       const processingTime = performance.now() - startTime;
-      this.calculateStats(sourceBitmap, resizedCanvas, blob, processingTime);
+      this.calculateStats(sourceBitmap, resizedCanvas, encoded.blob, processingTime);
 
       // Liberar recursos
-      if (source instanceof HTMLVideoElement || source instanceof HTMLCanvasElement) {
+      if (sourceBitmap !== source) {
         sourceBitmap.close();
       }
 
       console.log(`✅ Imagen procesada en ${processingTime.toFixed(2)}ms`);
-      console.log(`📊 Tamaño final: ${(blob.size / 1024).toFixed(2)}KB`);
+      console.log(`📊 Tamaño final: ${(encoded.blob.size / 1024).toFixed(2)}KB (${encoded.encoding.format})`);
 
-      return blob;
+      return encoded;
 
     } catch (error) {
       console.error('❌ Error procesando imagen:', error);
@@ -83,10 +151,12 @@ export class ImageProcessorService {
   }
 
   /**
-   * Comprimir canvas a WebP con compresión ultra agresiva
+   * Comprimir canvas bajando la calidad hasta entrar en `maxBytes`.
+   * El formato del resultado es el MIME real del blob: si el navegador no
+   * sabe codificar el pedido (Safari devuelve PNG al pedir WebP) se usa JPEG.
    */
-  async compressToWebP(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
-    const TARGET_SIZE_KB = 15; // Objetivo: < 15KB
+  async compressToFormat(canvas: HTMLCanvasElement, format: string, quality: number, maxBytes: number): Promise<EncodedImage> {
+    const targetKB = maxBytes / 1024;
     let currentQuality = quality;
     let attempts = 0;
     const maxAttempts = 5;
@@ -94,14 +164,14 @@ export class ImageProcessorService {
     try {
       // Compresión iterativa hasta alcanzar el tamaño objetivo
       while (attempts < maxAttempts) {
-        const webpBlob = await this.tryCompressToFormat(canvas, 'image/webp', currentQuality);
-        const sizeKB = webpBlob.size / 1024;
+        const blob = await this.tryCompressToFormat(canvas, format, currentQuality);
+        const sizeKB = blob.size / 1024;
         
         console.log(`🔄 Intento ${attempts + 1}: Calidad ${currentQuality.toFixed(2)} = ${sizeKB.toFixed(2)}KB`);
         
-        if (sizeKB <= TARGET_SIZE_KB) {
-          console.log(`✅ WebP optimizado: ${sizeKB.toFixed(2)}KB (objetivo: ${TARGET_SIZE_KB}KB)`);
-          return webpBlob;
+        if (sizeKB <= targetKB) {
+          console.log(`✅ ${format} optimizado: ${sizeKB.toFixed(2)}KB (objetivo: ${targetKB.toFixed(0)}KB)`);
+          return this.encoded(blob, currentQuality, canvas);
         }
         
         // Reducir calidad agresivamente
@@ -110,26 +180,31 @@ export class ImageProcessorService {
         
         if (currentQuality < 0.3) {
           console.log(`⚠️ Calidad mínima alcanzada: ${currentQuality.toFixed(2)}`);
-          return webpBlob;
+          return this.encoded(blob, currentQuality, canvas);
         }
       }
       
       // Si no se logra el objetivo, usar la última compresión
-      const finalBlob = await this.tryCompressToFormat(canvas, 'image/webp', currentQuality);
-      console.log(`✅ WebP final: ${(finalBlob.size / 1024).toFixed(2)}KB con calidad ${currentQuality.toFixed(2)}`);
-      return finalBlob;
+      const finalBlob = await this.tryCompressToFormat(canvas, format, currentQuality);
+      console.log(`✅ ${format} final: ${(finalBlob.size / 1024).toFixed(2)}KB con calidad ${currentQuality.toFixed(2)}`);
+      return this.encoded(finalBlob, currentQuality, canvas);
       
-    } catch (webpError) {
-      console.warn('⚠️ WebP no soportado, usando fallback JPEG:', webpError);
+    } catch (formatError) {
+      if (format === 'image/jpeg') {
+        throw formatError;
+      }
+
+      console.warn(`⚠️ ${format} no soportado, usando fallback JPEG:`, formatError);
       
       // Fallback a JPEG con compresión agresiva
       try {
-        const jpegBlob = await this.tryCompressToFormat(canvas, 'image/jpeg', Math.min(quality * 0.6, 0.5));
+        const jpegQuality = Math.min(quality * 0.6, 0.5);
+        const jpegBlob = await this.tryCompressToFormat(canvas, 'image/jpeg', jpegQuality);
         console.log(`✅ Fallback JPEG: ${(jpegBlob.size / 1024).toFixed(2)}KB`);
-        return jpegBlob;
+        return this.encoded(jpegBlob, jpegQuality, canvas);
       } catch (jpegError) {
         console.error('❌ Error con ambos formatos:', jpegError);
-        throw new Error('Error comprimiendo imagen: WebP y JPEG fallaron');
+        throw new Error(`Error comprimiendo imagen: ${format} y JPEG fallaron`);
       }
     }
   }
@@ -141,8 +216,11 @@ export class ImageProcessorService {
     return new Promise((resolve, reject) => {
       canvas.toBlob(
         (blob) => {
-          if (blob && blob.size > 0) {
+          if (blob && blob.size > 0 && blob.type === mimeType) {
             resolve(blob);
+          } else if (blob && blob.size > 0) {
+            // El navegador ignoró el formato pedido y codificó otro
+            reject(new Error(`El navegador codificó ${blob.type} en lugar de ${mimeType}`));
           } else {
             reject(new Error(`Error comprimiendo a ${mimeType}`));
           }
@@ -156,7 +234,12 @@ export class ImageProcessorService {
   /**
    * Redimensionar ImageBitmap usando Pica
    */
-  async resizeImageBitmap(source: ImageBitmap, targetW: number, targetH: number): Promise<HTMLCanvasElement> {
+  async resizeImageBitmap(
+    source: ImageBitmap,
+    targetW: number,
+    targetH: number,
+    preprocessing: ThumbnailPreprocessing = this.DEFAULT_PREPROCESSING
+  ): Promise<HTMLCanvasElement> {
     try {
       // Crear canvas fuente
       const sourceCanvas = document.createElement('canvas');
@@ -168,7 +251,8 @@ export class ImageProcessorService {
         throw new Error('No se pudo obtener contexto 2D del canvas fuente');
       }
 
-      // Dibujar ImageBitmap en canvas fuente
+      // Dibujar ImageBitmap en canvas fuente (con brillo/contraste del perfil de escena)
+      sourceCtx.filter = this.filterFor(preprocessing);
       sourceCtx.drawImage(source, 0, 0);
 
       // Configurar canvas destino
@@ -178,8 +262,8 @@ export class ImageProcessorService {
       // Redimensionar con Pica (alta calidad)
       const resizedCanvas = await this.picaInstance.resize(sourceCanvas, this.processingCanvas, {
         algorithm: 'lanczos',
-        unsharpAmount: 80,
-        unsharpRadius: 0.6,
+        unsharpAmount: preprocessing.unsharpAmount,
+        unsharpRadius: preprocessing.unsharpRadius,
         transferable: true
       });
 
@@ -189,7 +273,7 @@ export class ImageProcessorService {
       console.error('❌ Error redimensionando con Pica:', error);
       
       // Fallback: redimensionado nativo del canvas
-      return this.fallbackResize(source, targetW, targetH);
+      return this.fallbackResize(source, targetW, targetH, preprocessing);
     }
   }
 
@@ -248,7 +332,7 @@ export class ImageProcessorService {
 
     for (let i = 0; i < sources.length; i++) {
       try {
-        const blob = await this.processImageTo300x300(sources[i]);
+        const { blob } = await this.processImageTo300x300(sources[i]);
         results.push(blob);
         
         // Limpiar memoria entre procesamiento
@@ -267,6 +351,122 @@ export class ImageProcessorService {
 
   // --- MÉTODOS PRIVADOS ---
 
+  /**
+   * Crear el worker la primera vez, solo si el navegador soporta OffscreenCanvas
+   */
+  private async thumbnailWorker(): Promise<Worker | null> {
+    if (this.worker || this.workerDisabled) {
+      return this.worker;
+    }
+
+    const capabilities = await this.webpDetection.detectCapabilities();
+    if (this.worker || this.workerDisabled) {
+      return this.worker; // Otra llamada lo creó mientras se detectaba
+    }
+    if (!capabilities.supportsOffscreenCanvas || typeof Worker === 'undefined') {
+      console.log('⚠️ Sin OffscreenCanvas: thumbnails en el hilo principal');
+      this.workerDisabled = true;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('./thumbnail.worker', import.meta.url));
+      worker.onmessage = ({ data }: MessageEvent<ThumbnailWorkerResponse>) => this.settleWorkerJob(data);
+      worker.onerror = event => {
+        console.error('❌ Error en el worker de thumbnails:', event.message);
+        this.disableWorker();
+      };
+      worker.onmessageerror = () => {
+        console.error('❌ Mensaje ilegible del worker de thumbnails');
+        this.disableWorker();
+      };
+      this.worker = worker;
+      console.log('🧵 Thumbnails procesados en Web Worker con OffscreenCanvas');
+    } catch (error) {
+      console.error('⚠️ No se pudo crear el worker de thumbnails:', error);
+      this.workerDisabled = true;
+    }
+    return this.worker;
+  }
+
+  /**
+   * Enviar el frame (recortado a la ROI) al worker. Se transfiere un bitmap
+   * propio: el del llamante sigue siendo suyo (p.ej. el buffer HD).
+   */
+  private async processInWorker(
+    worker: Worker,
+    source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap,
+    encoding: ImageEncoding,
+    maxBytes: number,
+    crop: CropRect | null,
+    preprocessing: ThumbnailPreprocessing
+  ): Promise<EncodedImage> {
+    const startTime = performance.now();
+    const bitmap = crop
+      ? await createImageBitmap(source, crop.x, crop.y, crop.width, crop.height)
+      : await createImageBitmap(source);
+    const sourceSize = { width: bitmap.width, height: bitmap.height };
+
+    const id = ++this.nextJobId;
+    const request: ThumbnailWorkerRequest = { id, bitmap, encoding, maxBytes, preprocessing };
+    const thumbnail = await new Promise<EncodedImage>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.workerJobs.delete(id);
+        reject(new Error(`Sin respuesta del worker en ${this.WORKER_TIMEOUT}ms`));
+      }, this.WORKER_TIMEOUT);
+      this.workerJobs.set(id, { resolve, reject, timeout });
+      worker.postMessage(request, [bitmap]);
+    });
+
+    this.workerFailures = 0;
+    const processingTime = performance.now() - startTime;
+    this.calculateStats(sourceSize, thumbnail.encoding, thumbnail.blob, processingTime);
+    console.log(`✅ Imagen procesada en worker en ${processingTime.toFixed(2)}ms: ${(thumbnail.blob.size / 1024).toFixed(2)}KB (${thumbnail.encoding.format})`);
+
+    return thumbnail;
+  }
+
+  private settleWorkerJob(response: ThumbnailWorkerResponse): void {
+    const job = this.workerJobs.get(response.id);
+    if (!job) return;
+
+    clearTimeout(job.timeout);
+    this.workerJobs.delete(response.id);
+    if (response.thumbnail) {
+      job.resolve(response.thumbnail);
+    } else {
+      job.reject(new Error(response.error ?? 'Respuesta vacía del worker'));
+    }
+  }
+
+  /**
+   * Pasar al hilo principal para el resto de la sesión; los trabajos en curso fallan
+   * y quien los pidió los reprocesa en el hilo principal
+   */
+  private disableWorker(): void {
+    this.workerDisabled = true;
+    this.worker?.terminate();
+    this.worker = null;
+
+    this.workerJobs.forEach(job => {
+      clearTimeout(job.timeout);
+      job.reject(new Error('Worker de thumbnails detenido'));
+    });
+    this.workerJobs.clear();
+  }
+
+  private encoded(blob: Blob, quality: number, canvas: HTMLCanvasElement): EncodedImage {
+    return {
+      blob,
+      encoding: {
+        format: blob.type,
+        quality: Math.round(quality * 100) / 100,
+        width: canvas.width,
+        height: canvas.height
+      }
+    };
+  }
+
   private async initializePica(): Promise<void> {
     try {
       this.picaInstance = pica({
@@ -281,7 +481,12 @@ export class ImageProcessorService {
     }
   }
 
-  private async fallbackResize(source: ImageBitmap, targetW: number, targetH: number): Promise<HTMLCanvasElement> {
+  private async fallbackResize(
+    source: ImageBitmap,
+    targetW: number,
+    targetH: number,
+    preprocessing: ThumbnailPreprocessing = this.DEFAULT_PREPROCESSING
+  ): Promise<HTMLCanvasElement> {
     console.log('⚠️ Usando redimensionado nativo del canvas (fallback)');
 
     this.processingCanvas.width = targetW;
@@ -290,14 +495,23 @@ export class ImageProcessorService {
     // Redimensionado nativo (menor calidad pero compatible)
     this.ctx.imageSmoothingEnabled = true;
     this.ctx.imageSmoothingQuality = 'high';
+    this.ctx.filter = this.filterFor(preprocessing);
     this.ctx.drawImage(source, 0, 0, targetW, targetH);
+    this.ctx.filter = 'none';
 
     return this.processingCanvas;
   }
 
+  private filterFor(preprocessing: ThumbnailPreprocessing): string {
+    if (preprocessing.brightness === 1 && preprocessing.contrast === 1) {
+      return 'none';
+    }
+    return `brightness(${preprocessing.brightness}) contrast(${preprocessing.contrast})`;
+  }
+
   private calculateStats(
-    source: ImageBitmap, 
-    processed: HTMLCanvasElement, 
+    source: { width: number; height: number },
+    processed: { width: number; height: number },
     blob: Blob, 
     processingTime: number
   ): void {
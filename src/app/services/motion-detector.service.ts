@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+import { RoiPoint, RoiPolygon } from './roi.service';
+import { FrameSamplerService } from './frame-sampler.service';
+import { environment } from '../../environments/environment';
+
+export interface MotionDetectorConfig {
+  enabled: boolean;
+  sensitivity: number; // 0..1 - mayor = cambios de luz más pequeños cuentan como movimiento
+  minChangedArea: number; // Fracción (0..1) de píxeles que deben cambiar
+  useRoiMask: boolean; // Solo mirar dentro de las ROI del operador
+  holdTime: number; // ms que se sigue enviando tras el último movimiento
+  width: number; // Ancho del frame reducido en el que se compara
+}
+
+// Estado de comparación de un stream
+interface MotionState {
+  previous: Uint8Array | null; // Luminancia del último frame comparado
+  width: number;
+  height: number;
+  lastMotionAt: number;
+  maskSource: RoiPolygon[] | null; // Polígonos con los que se construyó la máscara
+  mask: Uint8Array | null; // 1 = píxel dentro de alguna ROI
+}
+
+/**
+ * Detector de movimiento por diferencia de frames sobre una versión reducida
+ * en escala de grises. Decide si vale la pena enviar un frame: en una escena
+ * quieta (portón vacío de noche) no se gasta ancho de banda ni créditos del backend.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MotionDetectorService {
+  private config: MotionDetectorConfig = { ...environment.motion };
+  private states = new Map<string, MotionState>();
+
+  private readonly MAX_PIXEL_DELTA = 64; // Diferencia de luminancia con sensibilidad 0
+
+  constructor(private frameSampler: FrameSamplerService) {}
+
+  /**
+   * Actualizar la configuración del detector
+   */
+  configure(config: Partial<MotionDetectorConfig>): void {
+    this.config = { ...this.config, ...config };
+    console.log('⚙️ Detector de movimiento actualizado:', this.config);
+  }
+
+  getConfig(): MotionDetectorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Olvidar el frame de referencia de un stream (al iniciar captura o cambiar de cámara)
+   */
+  reset(streamId: string): void {
+    this.states.delete(streamId);
+  }
+
+  /**
+   * Comparar el frame actual con el anterior del mismo stream.
+   * El primer frame y los frames dentro de `holdTime` tras un movimiento se envían:
+   * un vehículo detenido frente al portón no se mueve, pero hay que leer su placa.
+   */
+  hasMotion(streamId: string, source: HTMLVideoElement, rois: RoiPolygon[] = []): boolean {
+    if (!this.config.enabled || !source.videoWidth || !source.videoHeight) {
+      return true;
+    }
+
+    const width = Math.max(1, Math.round(this.config.width));
+    const height = Math.max(1, Math.round(width * source.videoHeight / source.videoWidth));
+    const luminance = this.frameSampler.luminance(source, width, height);
+    if (!luminance) {
+      return true;
+    }
+
+    const state = this.stateFor(streamId, width, height);
+    const previous = state.previous;
+    state.previous = luminance;
+
+    const now = Date.now();
+    if (!previous) {
+      state.lastMotionAt = now;
+      return true;
+    }
+
+    const mask = this.config.useRoiMask ? this.maskFor(state, rois) : null;
+    const threshold = this.MAX_PIXEL_DELTA * (1 - this.clamp(this.config.sensitivity));
+    let considered = 0;
+    let changed = 0;
+
+    for (let i = 0; i < luminance.length; i++) {
+      if (mask && !mask[i]) continue;
+      considered++;
+      if (Math.abs(luminance[i] - previous[i]) > threshold) {
+        changed++;
+      }
+    }
+
+    if (considered > 0 && changed / considered >= this.config.minChangedArea) {
+      state.lastMotionAt = now;
+      return true;
+    }
+
+    return now - state.lastMotionAt < this.config.holdTime;
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private stateFor(streamId: string, width: number, height: number): MotionState {
+    let state = this.states.get(streamId);
+
+    // Cambio de resolución (otra cámara o del ancho configurado): empezar de cero
+    if (!state || state.width !== width || state.height !== height) {
+      state = { previous: null, width, height, lastMotionAt: 0, maskSource: null, mask: null };
+      this.states.set(streamId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Máscara de las ROI a la resolución reducida; se reconstruye solo si cambian
+   */
+  private maskFor(state: MotionState, rois: RoiPolygon[]): Uint8Array | null {
+    if (rois.length === 0) {
+      return null;
+    }
+    if (state.maskSource === rois && state.mask) {
+      return state.mask;
+    }
+
+    const mask = new Uint8Array(state.width * state.height);
+    for (let y = 0; y < state.height; y++) {
+      for (let x = 0; x < state.width; x++) {
+        const point = { x: (x + 0.5) / state.width, y: (y + 0.5) / state.height };
+        if (rois.some(polygon => this.contains(polygon.points, point))) {
+          mask[y * state.width + x] = 1;
+        }
+      }
+    }
+
+    state.maskSource = rois;
+    state.mask = mask;
+    return mask;
+  }
+
+  /**
+   * Punto dentro de polígono (ray casting)
+   */
+  private contains(points: RoiPoint[], point: RoiPoint): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const a = points[i];
+      const b = points[j];
+      if ((a.y > point.y) !== (b.y > point.y) &&
+          point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+}
@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { OfflineQueueService, QueuedFrame } from './offline-queue.service';
+
+describe('OfflineQueueService', () => {
+  const MAX_QUEUE_SIZE = 200;
+  const MAX_AGE = 30 * 60 * 1000;
+  let service: OfflineQueueService;
+
+  const frame = (index: number, capturedAt: number = Date.now() + index): QueuedFrame => ({
+    requestId: `frame_${index}`,
+    streamId: 'main',
+    capturedAt,
+    blob: new Blob(['x'], { type: 'image/webp' }),
+    encoding: { format: 'image/webp', quality: 0.75, width: 300, height: 300 }
+  });
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(OfflineQueueService);
+    await service.clear();
+  });
+
+  it('debería devolver los frames pendientes en orden de captura', async () => {
+    await service.enqueue(frame(2));
+    await service.enqueue(frame(0));
+    await service.enqueue(frame(1));
+
+    const pending = await service.getPending();
+    expect(pending.map(queued => queued.requestId)).toEqual(['frame_0', 'frame_1', 'frame_2']);
+    expect(await firstValueFrom(service.depth$)).toBe(3);
+  });
+
+  it('debería descartar los frames más antiguos al superar MAX_QUEUE_SIZE', async () => {
+    const total = MAX_QUEUE_SIZE + 5;
+    for (let i = 0; i < total; i++) {
+      await service.enqueue(frame(i));
+    }
+
+    const pending = await service.getPending();
+    expect(pending.length).toBe(MAX_QUEUE_SIZE);
+    expect(pending[0].requestId).toBe('frame_5');
+    expect(pending[pending.length - 1].requestId).toBe(`frame_${total - 1}`);
+    expect(await firstValueFrom(service.depth$)).toBe(MAX_QUEUE_SIZE);
+  }, 30000);
+
+  it('debería podar los frames con más de MAX_AGE', async () => {
+    await service.enqueue(frame(0, Date.now() - MAX_AGE - 1000));
+    await service.enqueue(frame(1, Date.now() - MAX_AGE + 60000));
+    await service.enqueue(frame(2));
+
+    const pending = await service.getPending();
+    expect(pending.map(queued => queued.requestId)).toEqual(['frame_1', 'frame_2']);
+    expect(await firstValueFrom(service.depth$)).toBe(2);
+  });
+
+  it('debería retirar un frame reenviado', async () => {
+    await service.enqueue(frame(0));
+    await service.enqueue(frame(1));
+
+    await service.remove('frame_0');
+
+    const pending = await service.getPending();
+    expect(pending.map(queued => queued.requestId)).toEqual(['frame_1']);
+    expect(await firstValueFrom(service.depth$)).toBe(1);
+  });
+});
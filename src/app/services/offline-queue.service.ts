@@ -0,0 +1,173 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { ImageEncoding } from '../interfaces/plate-detection.interface';
+
+export interface QueuedFrame {
+  requestId: string;
+  streamId: string;
+  capturedAt: number;
+  blob: Blob;
+  encoding: ImageEncoding;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineQueueService {
+  private readonly DB_NAME = 'irix_offline_queue';
+  private readonly STORE_NAME = 'frames';
+  private readonly MAX_QUEUE_SIZE = 200; // Máximo de frames pendientes
+  private readonly MAX_AGE = 30 * 60 * 1000; // 30 minutos
+
+  private depth = new BehaviorSubject<number>(0);
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private isBrowser: boolean;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: Object) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    if (this.isBrowser) {
+      this.refreshDepth();
+    }
+  }
+
+  /**
+   * Encolar frame capturado sin conexión
+   */
+  async enqueue(frame: QueuedFrame): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      await this.runTransaction(db, 'readwrite', store => store.put(frame));
+      await this.enforceLimits(db);
+      console.log(`📥 Frame ${frame.requestId} encolado (${this.depth.value} pendientes)`);
+    } catch (error) {
+      console.error('❌ Error encolando frame offline:', error);
+    }
+  }
+
+  /**
+   * Obtener frames pendientes en orden de captura
+   */
+  async getPending(): Promise<QueuedFrame[]> {
+    try {
+      const db = await this.openDatabase();
+      await this.enforceLimits(db);
+      const frames = await this.runTransaction<QueuedFrame[]>(db, 'readonly', store =>
+        store.index('capturedAt').getAll()
+      );
+      return frames;
+    } catch (error) {
+      console.error('❌ Error leyendo cola offline:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Retirar frame ya reenviado
+   */
+  async remove(requestId: string): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      await this.runTransaction(db, 'readwrite', store => store.delete(requestId));
+      await this.refreshDepth();
+    } catch (error) {
+      console.error('❌ Error retirando frame de la cola offline:', error);
+    }
+  }
+
+  /**
+   * Vaciar la cola completa
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      await this.runTransaction(db, 'readwrite', store => store.clear());
+      this.depth.next(0);
+      console.log('🗑️ Cola offline vaciada');
+    } catch (error) {
+      console.error('❌ Error vaciando cola offline:', error);
+    }
+  }
+
+  /**
+   * Observable con el número de frames pendientes
+   */
+  get depth$(): Observable<number> {
+    return this.depth.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Descartar frames expirados y los más antiguos si se supera el máximo
+   */
+  private async enforceLimits(db: IDBDatabase): Promise<void> {
+    const keys = await this.runTransaction<IDBValidKey[]>(db, 'readonly', store =>
+      store.index('capturedAt').getAllKeys()
+    );
+    const expired = await this.runTransaction<IDBValidKey[]>(db, 'readonly', store =>
+      store.index('capturedAt').getAllKeys(IDBKeyRange.upperBound(Date.now() - this.MAX_AGE))
+    );
+
+    // Las claves vienen ordenadas por captura: las primeras son las más antiguas
+    const overflow = keys.slice(0, Math.max(0, keys.length - this.MAX_QUEUE_SIZE));
+    const toDelete = new Set<IDBValidKey>([...expired, ...overflow]);
+
+    if (toDelete.size > 0) {
+      await this.runTransaction(db, 'readwrite', store => {
+        toDelete.forEach(key => store.delete(key));
+        return store.count();
+      });
+      console.warn(`🧹 Cola offline: ${expired.length} expirados, ${overflow.length} descartados por límite`);
+    }
+
+    this.depth.next(keys.length - toDelete.size);
+  }
+
+  private async refreshDepth(): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      const count = await this.runTransaction<number>(db, 'readonly', store => store.count());
+      this.depth.next(count);
+    } catch (error) {
+      console.error('❌ Error contando cola offline:', error);
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.isBrowser || typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB no disponible'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.STORE_NAME, { keyPath: 'requestId' });
+          store.createIndex('capturedAt', 'capturedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private runTransaction<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { AnalysisTransport } from '../core/abstractions/analysis-transport.abstract';
+import { ProtocolService } from './protocol.service';
+
+describe('ProtocolService', () => {
+  let service: ProtocolService;
+
+  // Transporte mínimo que responde al saludo con el ack indicado
+  const transportAcking = (ack: unknown): AnalysisTransport =>
+    ({ emitWithAck: () => Promise.resolve(ack) }) as unknown as AnalysisTransport;
+
+  const detection = (fields: Record<string, unknown> = {}) => ({
+    type: 'thumbnail_result',
+    requestId: 'main_1',
+    hasPlate: true,
+    plates: ['ABC123'],
+    confidence: 0.9,
+    ...fields
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ProtocolService);
+  });
+
+  it('debería aceptar un resultado v2 completo', () => {
+    const result = service.parseResult(detection(), 'socket.io');
+
+    expect(result).toEqual(jasmine.objectContaining({
+      type: 'thumbnail_result',
+      requestId: 'main_1',
+      hasPlate: true,
+      plates: ['ABC123'],
+      confidence: 0.9
+    }));
+  });
+
+  it('debería rechazar en v2 un resultado sin requestId', async () => {
+    const result = service.parseResult(detection({ requestId: undefined }), 'socket.io');
+
+    expect(result).toBeNull();
+    const diagnostics = await firstValueFrom(service.diagnostics$);
+    expect(diagnostics.malformed).toBe(1);
+    expect(diagnostics.recent[0].message).toContain('requestId');
+  });
+
+  it('debería aceptar en v1 un resultado sin requestId', async () => {
+    expect(await service.negotiate(transportAcking(null), 'socket.io')).toBeTrue();
+    expect(service.version).toBe(1);
+
+    const result = service.parseResult(detection({ requestId: undefined }), 'socket.io');
+
+    expect(result).not.toBeNull();
+    expect((result as { requestId?: string }).requestId).toBeUndefined();
+  });
+
+  it('debería aceptar resultados sin requestId mientras el saludo no tiene respuesta', async () => {
+    let answer!: (ack: unknown) => void;
+    const transport = { emitWithAck: () => new Promise(resolve => answer = resolve) } as unknown as AnalysisTransport;
+
+    const negotiation = service.negotiate(transport, 'socket.io');
+    expect(service.legacyResults).toBeTrue();
+    expect(service.parseResult(detection({ requestId: undefined }), 'socket.io')).not.toBeNull();
+
+    answer({ version: 2 });
+    expect(await negotiation).toBeTrue();
+    expect(service.legacyResults).toBeFalse();
+    expect(service.parseResult(detection({ requestId: undefined }), 'socket.io')).toBeNull();
+  });
+
+  it('debería volver a la versión actual al negociar con otro backend', async () => {
+    await service.negotiate(transportAcking(null), 'socket.io');
+    expect(service.version).toBe(1);
+
+    await service.negotiate(transportAcking({ version: 2 }), 'websocket');
+    expect(service.version).toBe(2);
+    expect(service.legacyResults).toBeFalse();
+  });
+
+  it('debería usar la versión negociada con el servidor', async () => {
+    expect(await service.negotiate(transportAcking({ version: 2 }), 'websocket')).toBeTrue();
+    expect(service.version).toBe(2);
+
+    expect(await service.negotiate(transportAcking({ version: 3, supported: [3] }), 'websocket')).toBeFalse();
+    const status = await firstValueFrom(service.status$);
+    expect(status.compatible).toBeFalse();
+  });
+
+  it('debería rechazar mensajes que no cumplen el esquema', async () => {
+    const malformed: unknown[] = [
+      null,
+      'thumbnail_result',
+      ['thumbnail_result'],
+      { hasPlate: true },
+      detection({ hasPlate: 'sí' }),
+      detection({ confidence: 1.5 }),
+      detection({ plates: 'ABC123' }),
+      detection({ plates: [123] }),
+      detection({ processingTime: Number.NaN })
+    ];
+
+    malformed.forEach(raw => expect(service.parseResult(raw, 'http')).withContext(JSON.stringify(raw)).toBeNull());
+
+    const diagnostics = await firstValueFrom(service.diagnostics$);
+    expect(diagnostics.malformed).toBe(malformed.length);
+    expect(diagnostics.recent.every(diagnostic => diagnostic.transport === 'http')).toBeTrue();
+  });
+
+  it('debería registrar los tipos de mensaje desconocidos', async () => {
+    expect(service.parseResult({ type: 'plate_found', requestId: 'main_1' }, 'websocket')).toBeNull();
+
+    const diagnostics = await firstValueFrom(service.diagnostics$);
+    expect(diagnostics.unknownType).toBe(1);
+    expect(diagnostics.malformed).toBe(0);
+  });
+
+  it('debería aceptar errores sin requestId y con detalle por defecto', () => {
+    expect(service.parseResult({ type: 'analysis_error' }, 'socket.io')).toEqual(jasmine.objectContaining({
+      type: 'analysis_error',
+      requestId: undefined,
+      error: 'Error sin detalle'
+    }));
+  });
+});
@@ -0,0 +1,317 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { AnalysisTransport, TransportType } from '../core/abstractions/analysis-transport.abstract';
+import {
+  ConnectionEstablishedMessage,
+  DetectionErrorResult,
+  DetectionResult,
+  HDDetectionResult,
+  PlateDetectionResult,
+  PlateDetectionResultType,
+  ProtocolHello,
+  ProtocolHelloAck
+} from '../interfaces/plate-detection.interface';
+
+export type ProtocolDiagnosticKind = 'malformed' | 'unknown_type' | 'version';
+
+export interface ProtocolDiagnostic {
+  kind: ProtocolDiagnosticKind;
+  message: string;
+  transport: TransportType;
+  timestamp: number;
+  sample?: string; // Fragmento del mensaje recibido
+}
+
+export interface ProtocolStatus {
+  version: number;
+  negotiated: boolean; // false = el servidor no respondió al saludo y se asume legacy
+  compatible: boolean;
+}
+
+export interface ProtocolDiagnosticsSummary {
+  malformed: number;
+  unknownType: number;
+  versionErrors: number;
+  recent: ProtocolDiagnostic[];
+}
+
+// Campo con tipo o valor fuera del esquema del protocolo
+class ProtocolValidationError extends Error {}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProtocolService {
+  readonly CURRENT_VERSION = 2;
+  readonly SUPPORTED_VERSIONS = [1, 2]; // v1: backends sin requestId en los resultados
+  private readonly LEGACY_VERSION = 1;
+  private readonly HELLO_TIMEOUT = 3000;
+  private readonly MAX_DIAGNOSTICS = 50;
+  private readonly SAMPLE_LENGTH = 200;
+
+  private attempts = 0;
+  private negotiation = 0; // Saludo en curso (0 = ninguno); descarta respuestas de saludos anteriores
+
+  private status = new BehaviorSubject<ProtocolStatus>({
+    version: this.CURRENT_VERSION,
+    negotiated: false,
+    compatible: true
+  });
+  private diagnostics = new BehaviorSubject<ProtocolDiagnosticsSummary>({
+    malformed: 0,
+    unknownType: 0,
+    versionErrors: 0,
+    recent: []
+  });
+
+  /**
+   * Negociar versión de protocolo con el servidor recién conectado (en cada
+   * conexión: tras una reconexión o failover puede ser otro backend).
+   * Devuelve false si el servidor solo habla versiones que no soportamos.
+   */
+  async negotiate(transport: AnalysisTransport, transportType: TransportType): Promise<boolean> {
+    const hello: ProtocolHello = {
+      versions: this.SUPPORTED_VERSIONS,
+      preferred: this.CURRENT_VERSION
+    };
+
+    // Mientras dura el saludo no se sabe la versión: se aceptan resultados legacy
+    const attempt = ++this.attempts;
+    this.negotiation = attempt;
+    this.status.next({ version: this.CURRENT_VERSION, negotiated: false, compatible: true });
+
+    const ack = await transport.emitWithAck<ProtocolHelloAck>('protocol-hello', hello, this.HELLO_TIMEOUT);
+    if (attempt !== this.negotiation) {
+      return this.status.value.compatible; // Una conexión posterior empezó otro saludo
+    }
+    this.negotiation = 0;
+
+    if (!ack || typeof ack.version !== 'number') {
+      // Backend anterior a la negociación: habla el protocolo original
+      console.warn(`⚠️ El servidor no negoció versión de protocolo, se asume v${this.LEGACY_VERSION}`);
+      this.status.next({ version: this.LEGACY_VERSION, negotiated: false, compatible: true });
+      return true;
+    }
+
+    if (!this.SUPPORTED_VERSIONS.includes(ack.version)) {
+      const supported = ack.supported?.join(', ') ?? ack.version;
+      this.report('version', transportType, `Servidor habla protocolo v${supported}, cliente soporta v${this.SUPPORTED_VERSIONS.join(', ')}`);
+      this.status.next({ version: ack.version, negotiated: true, compatible: false });
+      return false;
+    }
+
+    console.log(`🤝 Protocolo v${ack.version} negociado vía ${transportType}`);
+    this.status.next({ version: ack.version, negotiated: true, compatible: true });
+    return true;
+  }
+
+  /**
+   * Validar un mensaje de 'analysis-result' recibido por el transporte.
+   * Devuelve null (y lo registra en diagnósticos) si no cumple el esquema.
+   */
+  parseResult(raw: unknown, transportType: TransportType): PlateDetectionResult | null {
+    if (!this.isObject(raw) || typeof raw['type'] !== 'string') {
+      this.report('malformed', transportType, 'Mensaje sin campo "type"', raw);
+      return null;
+    }
+
+    const type = raw['type'] as PlateDetectionResultType;
+
+    try {
+      switch (type) {
+        case 'connection_established':
+        case 'socket_connected':
+          return this.parseConnection(type, raw);
+        case 'thumbnail_result':
+        case 'analysis_result':
+          return this.parseDetection(type, raw);
+        case 'hd_result':
+          return this.parseHDDetection(raw);
+        case 'thumbnail_error':
+        case 'hd_error':
+        case 'analysis_error':
+          return this.parseError(type, raw);
+        default:
+          this.report('unknown_type', transportType, `Tipo de mensaje desconocido: "${type}"`, raw);
+          return null;
+      }
+    } catch (error) {
+      if (error instanceof ProtocolValidationError) {
+        this.report('malformed', transportType, `${type}: ${error.message}`, raw);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Versión de protocolo negociada con el backend actual
+   */
+  get version(): number {
+    return this.status.value.version;
+  }
+
+  /**
+   * Los resultados pueden llegar sin requestId: backend v1, o saludo aún
+   * sin respuesta (un backend v1 empieza a responder antes de que expire)
+   */
+  get legacyResults(): boolean {
+    return this.version < 2 || this.negotiation !== 0;
+  }
+
+  /**
+   * Observable del estado de la negociación
+   */
+  get status$(): Observable<ProtocolStatus> {
+    return this.status.asObservable();
+  }
+
+  /**
+   * Observable con contadores y últimos mensajes rechazados
+   */
+  get diagnostics$(): Observable<ProtocolDiagnosticsSummary> {
+    return this.diagnostics.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private parseConnection(type: ConnectionEstablishedMessage['type'], raw: Record<string, unknown>): ConnectionEstablishedMessage {
+    return {
+      type,
+      clientId: this.optionalString(raw, 'clientId'),
+      protocolVersion: this.optionalNumber(raw, 'protocolVersion'),
+      timestamp: this.optionalNumber(raw, 'timestamp')
+    };
+  }
+
+  private parseDetection(type: DetectionResult['type'], raw: Record<string, unknown>): DetectionResult {
+    if (typeof raw['hasPlate'] !== 'boolean') {
+      throw new ProtocolValidationError('"hasPlate" debe ser booleano');
+    }
+
+    const confidence = this.optionalNumber(raw, 'confidence');
+    if (confidence !== undefined && (confidence < 0 || confidence > 1)) {
+      throw new ProtocolValidationError(`"confidence" fuera de rango: ${confidence}`);
+    }
+
+    return {
+      type,
+      requestId: this.requestId(raw),
+      streamId: this.optionalString(raw, 'streamId'),
+      hasPlate: raw['hasPlate'],
+      requestHD: this.optionalBoolean(raw, 'requestHD'),
+      plates: this.plates(raw),
+      vehicleColor: this.optionalString(raw, 'vehicleColor'),
+      vehicleDescription: this.optionalString(raw, 'vehicleDescription'),
+      confidence,
+      processingTime: this.optionalNumber(raw, 'processingTime'),
+      timestamp: this.optionalNumber(raw, 'timestamp')
+    };
+  }
+
+  private parseHDDetection(raw: Record<string, unknown>): HDDetectionResult {
+    return {
+      type: 'hd_result',
+      requestId: this.requestId(raw),
+      streamId: this.optionalString(raw, 'streamId'),
+      hasPlate: this.optionalBoolean(raw, 'hasPlate'),
+      plates: this.plates(raw),
+      vehicleColor: this.optionalString(raw, 'vehicleColor'),
+      vehicleDescription: this.optionalString(raw, 'vehicleDescription'),
+      confidence: this.optionalNumber(raw, 'confidence'),
+      processingTime: this.optionalNumber(raw, 'processingTime'),
+      timestamp: this.optionalNumber(raw, 'timestamp')
+    };
+  }
+
+  private parseError(type: DetectionErrorResult['type'], raw: Record<string, unknown>): DetectionErrorResult {
+    return {
+      type,
+      requestId: this.optionalString(raw, 'requestId'),
+      streamId: this.optionalString(raw, 'streamId'),
+      error: this.optionalString(raw, 'error') ?? 'Error sin detalle',
+      timestamp: this.optionalNumber(raw, 'timestamp')
+    };
+  }
+
+  /**
+   * requestId es obligatorio desde v2; en v1 los resultados no lo traían
+   */
+  private requestId(raw: Record<string, unknown>): string | undefined {
+    const requestId = this.optionalString(raw, 'requestId');
+    if (requestId === undefined && !this.legacyResults) {
+      throw new ProtocolValidationError('falta "requestId"');
+    }
+    return requestId;
+  }
+
+  private plates(raw: Record<string, unknown>): string[] {
+    const plates = raw['plates'];
+    if (plates === undefined || plates === null) {
+      return [];
+    }
+    if (!Array.isArray(plates) || !plates.every(plate => typeof plate === 'string')) {
+      throw new ProtocolValidationError('"plates" debe ser un array de strings');
+    }
+    return plates;
+  }
+
+  private optionalString(raw: Record<string, unknown>, field: string): string | undefined {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') {
+      throw new ProtocolValidationError(`"${field}" debe ser string`);
+    }
+    return value;
+  }
+
+  private optionalNumber(raw: Record<string, unknown>, field: string): number | undefined {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ProtocolValidationError(`"${field}" debe ser numérico`);
+    }
+    return value;
+  }
+
+  private optionalBoolean(raw: Record<string, unknown>, field: string): boolean | undefined {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'boolean') {
+      throw new ProtocolValidationError(`"${field}" debe ser booleano`);
+    }
+    return value;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private report(kind: ProtocolDiagnosticKind, transport: TransportType, message: string, raw?: unknown): void {
+    const diagnostic: ProtocolDiagnostic = {
+      kind,
+      message,
+      transport,
+      timestamp: Date.now(),
+      sample: raw === undefined ? undefined : this.sample(raw)
+    };
+
+    console.warn(`🧩 Protocolo [${transport}] ${message}`, raw);
+
+    const current = this.diagnostics.value;
+    this.diagnostics.next({
+      malformed: current.malformed + (kind === 'malformed' ? 1 : 0),
+      unknownType: current.unknownType + (kind === 'unknown_type' ? 1 : 0),
+      versionErrors: current.versionErrors + (kind === 'version' ? 1 : 0),
+      recent: [diagnostic, ...current.recent].slice(0, this.MAX_DIAGNOSTICS)
+    });
+  }
+
+  private sample(raw: unknown): string {
+    try {
+      return JSON.stringify(raw).slice(0, this.SAMPLE_LENGTH);
+    } catch {
+      return String(raw).slice(0, this.SAMPLE_LENGTH);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable, map } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { CropRect } from './image-processor.service';
+
+// Coordenadas normalizadas (0..1) respecto al frame: no dependen de la resolución
+export interface RoiPoint {
+  x: number;
+  y: number;
+}
+
+export interface RoiPolygon {
+  points: RoiPoint[];
+}
+
+/**
+ * Regiones de interés dibujadas por el operador, guardadas por dispositivo de cámara.
+ * Los thumbnails se recortan al rectángulo que envuelve todas las ROI antes de
+ * reducirse, para que la placa ocupe más píxeles del 300x300.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RoiService {
+  private readonly STORAGE_KEY = 'irix_camera_rois';
+  private readonly MIN_POINTS = 3;
+  private readonly MIN_CROP_PIXELS = 32; // Recortes menores no tienen sentido para OCR
+
+  private rois: BehaviorSubject<Record<string, RoiPolygon[]>>;
+  private isBrowser: boolean;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: Object) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    this.rois = new BehaviorSubject<Record<string, RoiPolygon[]>>(this.load());
+  }
+
+  /**
+   * ROI de un dispositivo
+   */
+  getRois(deviceId: string): RoiPolygon[] {
+    return this.rois.value[deviceId] ?? [];
+  }
+
+  /**
+   * Observable de las ROI de un dispositivo
+   */
+  rois$(deviceId: string): Observable<RoiPolygon[]> {
+    return this.rois.pipe(map(rois => rois[deviceId] ?? []));
+  }
+
+  addRoi(deviceId: string, polygon: RoiPolygon): void {
+    if (polygon.points.length < this.MIN_POINTS) {
+      console.warn(`⚠️ ROI descartada: necesita al menos ${this.MIN_POINTS} puntos`);
+      return;
+    }
+
+    const points = polygon.points.map(({ x, y }) => ({ x: this.clamp(x), y: this.clamp(y) }));
+    this.store(deviceId, [...this.getRois(deviceId), { points }]);
+    console.log(`🔲 ROI añadida para ${deviceId} (${points.length} puntos)`);
+  }
+
+  clearRois(deviceId: string): void {
+    this.store(deviceId, []);
+    console.log(`🧹 ROI eliminadas para ${deviceId}`);
+  }
+
+  /**
+   * Rectángulo en píxeles del frame que envuelve todas las ROI del dispositivo,
+   * o null si no hay ROI (se usa el frame completo)
+   */
+  cropFor(deviceId: string, frameWidth: number, frameHeight: number): CropRect | null {
+    const points = this.getRois(deviceId).flatMap(polygon => polygon.points);
+    if (points.length === 0) {
+      return null;
+    }
+
+    const minX = Math.min(...points.map(point => point.x));
+    const maxX = Math.max(...points.map(point => point.x));
+    const minY = Math.min(...points.map(point => point.y));
+    const maxY = Math.max(...points.map(point => point.y));
+
+    const crop: CropRect = {
+      x: Math.floor(minX * frameWidth),
+      y: Math.floor(minY * frameHeight),
+      width: Math.ceil((maxX - minX) * frameWidth),
+      height: Math.ceil((maxY - minY) * frameHeight)
+    };
+
+    if (crop.width < this.MIN_CROP_PIXELS || crop.height < this.MIN_CROP_PIXELS) {
+      return null;
+    }
+    return crop;
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private store(deviceId: string, polygons: RoiPolygon[]): void {
+    const { [deviceId]: _previous, ...others } = this.rois.value;
+    const rois = polygons.length > 0 ? { ...others, [deviceId]: polygons } : others;
+    this.rois.next(rois);
+
+    if (!this.isBrowser) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(rois));
+    } catch (error) {
+      console.error('❌ Error guardando ROI:', error);
+    }
+  }
+
+  private load(): Record<string, RoiPolygon[]> {
+    if (!this.isBrowser) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? '{}');
+    } catch (error) {
+      console.error('❌ Error leyendo ROI:', error);
+      return {};
+    }
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+}
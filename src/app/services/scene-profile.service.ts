@@ -0,0 +1,228 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { CameraConfiguration } from '../core/abstractions/camera.abstract';
+import { ThumbnailPreprocessing } from '../interfaces/thumbnail-worker.interface';
+import { FrameSamplerService } from './frame-sampler.service';
+import { environment } from '../../environments/environment';
+
+export type SceneProfileName = 'day' | 'dusk' | 'night' | 'backlit';
+
+export interface SceneProfile {
+  name: SceneProfileName;
+  label: string;
+  constraints: Partial<CameraConfiguration>; // Se aplican sobre la configuración profesional
+  preprocessing: ThumbnailPreprocessing; // Ajustes del thumbnail antes de enviarlo
+}
+
+// Luminancia medida en un frame muestreado
+export interface SceneLuminance {
+  mean: number; // 0-255
+  shadows: number; // Fracción de píxeles oscuros
+  highlights: number; // Fracción de píxeles quemados
+}
+
+export interface SceneProfileSwitch {
+  streamId: string;
+  from: SceneProfileName;
+  to: SceneProfileName;
+  luminance: SceneLuminance;
+  timestamp: number;
+}
+
+// Estado del monitor de un stream
+interface SceneState {
+  profile: SceneProfileName;
+  candidate: SceneProfileName | null; // Perfil que se está confirmando
+  confirmations: number;
+  lastSampleAt: number;
+}
+
+/**
+ * Perfiles de cámara según la luz de la escena. Se muestrea la luminancia y el
+ * histograma de un frame reducido cada `sampleInterval` ms; para cambiar de perfil
+ * hay que salir de la banda actual por más de `hysteresis` y mantenerse así
+ * `confirmSamples` muestras seguidas, para no oscilar al atardecer o con nubes.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SceneProfileService {
+  private readonly config = environment.sceneProfiles;
+  private readonly SAMPLE_WIDTH = 64;
+  private readonly SHADOW_LEVEL = 50; // Luminancia por debajo de la cual un píxel es sombra
+  private readonly HIGHLIGHT_LEVEL = 240; // Luminancia por encima de la cual está quemado
+  private readonly MAX_SWITCHES = 20; // Cambios recientes que se conservan
+
+  private readonly PROFILES: Record<SceneProfileName, SceneProfile> = {
+    // Día soleado: la configuración profesional tal cual
+    day: {
+      name: 'day',
+      label: '☀️ Día',
+      constraints: {},
+      preprocessing: { brightness: 1, contrast: 1, unsharpAmount: 80, unsharpRadius: 0.6 }
+    },
+    // Atardecer: más ISO y obturación más lenta, balance automático
+    dusk: {
+      name: 'dusk',
+      label: '🌆 Atardecer',
+      constraints: { whiteBalanceMode: 'continuous', iso: 400, shutterSpeed: 500, brightness: 0, contrast: 1.2 },
+      preprocessing: { brightness: 1.15, contrast: 1.1, unsharpAmount: 100, unsharpRadius: 0.6 }
+    },
+    // Noche: exposición automática (el reflectivo de la placa se ve con los faros)
+    night: {
+      name: 'night',
+      label: '🌙 Noche',
+      constraints: {
+        exposureMode: 'continuous',
+        whiteBalanceMode: 'continuous',
+        iso: undefined,
+        shutterSpeed: undefined,
+        brightness: 0.2,
+        contrast: 1.1,
+        saturation: 0.5
+      },
+      preprocessing: { brightness: 1.3, contrast: 1.2, unsharpAmount: 50, unsharpRadius: 0.8 } // Menos nitidez: más ruido
+    },
+    // Contraluz: cielo o sol de frente, la placa queda en sombra
+    backlit: {
+      name: 'backlit',
+      label: '🌗 Contraluz',
+      constraints: { exposureMode: 'continuous', whiteBalanceMode: 'continuous', shutterSpeed: undefined, brightness: 0.3, contrast: 1 },
+      preprocessing: { brightness: 1.25, contrast: 0.95, unsharpAmount: 80, unsharpRadius: 0.6 }
+    }
+  };
+
+  private states = new Map<string, SceneState>();
+  private profiles = new BehaviorSubject<Record<string, SceneProfileName>>({});
+  private switches = new BehaviorSubject<SceneProfileSwitch[]>([]);
+
+  constructor(private frameSampler: FrameSamplerService) {}
+
+  /**
+   * Perfil activo de un stream (día hasta que el monitor decida otra cosa)
+   */
+  profileFor(streamId: string): SceneProfile {
+    return this.PROFILES[this.states.get(streamId)?.profile ?? 'day'];
+  }
+
+  /**
+   * Muestrear el frame si toca; devuelve el nuevo perfil si hubo cambio
+   */
+  sample(streamId: string, source: HTMLVideoElement): SceneProfile | null {
+    const now = Date.now();
+    const state = this.stateFor(streamId);
+    if (!this.config.enabled || now - state.lastSampleAt < this.config.sampleInterval || !source.videoWidth) {
+      return null;
+    }
+    state.lastSampleAt = now;
+
+    const luminance = this.measure(source);
+    if (!luminance) {
+      return null;
+    }
+
+    const target = this.classify(state.profile, luminance);
+    if (target === state.profile) {
+      state.candidate = null;
+      state.confirmations = 0;
+      return null;
+    }
+
+    state.confirmations = target === state.candidate ? state.confirmations + 1 : 1;
+    state.candidate = target;
+    if (state.confirmations < this.config.confirmSamples) {
+      return null;
+    }
+
+    const change: SceneProfileSwitch = { streamId, from: state.profile, to: target, luminance, timestamp: now };
+    state.profile = target;
+    state.candidate = null;
+    state.confirmations = 0;
+
+    this.profiles.next({ ...this.profiles.value, [streamId]: target });
+    this.switches.next([change, ...this.switches.value].slice(0, this.MAX_SWITCHES));
+    console.log(
+      `🌓 Perfil de escena [${streamId}]: ${this.PROFILES[change.from].label} → ${this.PROFILES[target].label} ` +
+      `(luminancia ${luminance.mean.toFixed(0)}, sombras ${(luminance.shadows * 100).toFixed(0)}%, quemado ${(luminance.highlights * 100).toFixed(0)}%)`
+    );
+    return this.PROFILES[target];
+  }
+
+  /**
+   * Volver al perfil de día (al cerrar la cámara del stream)
+   */
+  reset(streamId: string): void {
+    this.states.delete(streamId);
+    const { [streamId]: _removed, ...rest } = this.profiles.value;
+    this.profiles.next(rest);
+  }
+
+  getProfile(name: SceneProfileName): SceneProfile {
+    return this.PROFILES[name];
+  }
+
+  /**
+   * Observable del perfil activo de cada stream (los que no aparecen están en día)
+   */
+  get profiles$(): Observable<Record<string, SceneProfileName>> {
+    return this.profiles.asObservable();
+  }
+
+  /**
+   * Observable de los últimos cambios de perfil (el más reciente primero)
+   */
+  get switches$(): Observable<SceneProfileSwitch[]> {
+    return this.switches.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  /**
+   * Perfil que corresponde a la luminancia, exigiendo el margen de histéresis
+   * para salir del perfil actual
+   */
+  private classify(current: SceneProfileName, luminance: SceneLuminance): SceneProfileName {
+    const { dayLuminance, nightLuminance, hysteresis, backlitHighlights, backlitShadows } = this.config;
+
+    // Contraluz: mucho cielo quemado y el resto en sombra, aunque la media sea de día
+    const backlitMargin = current === 'backlit' ? 0.75 : 1;
+    if (luminance.highlights >= backlitHighlights * backlitMargin && luminance.shadows >= backlitShadows * backlitMargin) {
+      return 'backlit';
+    }
+
+    const dayThreshold = current === 'day' ? dayLuminance - hysteresis : dayLuminance + hysteresis;
+    const nightThreshold = current === 'night' ? nightLuminance + hysteresis : nightLuminance - hysteresis;
+
+    if (luminance.mean >= dayThreshold) return 'day';
+    if (luminance.mean < nightThreshold) return 'night';
+    return 'dusk';
+  }
+
+  private measure(source: HTMLVideoElement): SceneLuminance | null {
+    const width = this.SAMPLE_WIDTH;
+    const height = Math.max(1, Math.round(width * source.videoHeight / source.videoWidth));
+    const luminance = this.frameSampler.luminance(source, width, height);
+    if (!luminance) return null;
+
+    const pixels = luminance.length;
+    let sum = 0;
+    let shadows = 0;
+    let highlights = 0;
+    for (const value of luminance) {
+      sum += value;
+      if (value < this.SHADOW_LEVEL) shadows++;
+      if (value > this.HIGHLIGHT_LEVEL) highlights++;
+    }
+
+    return { mean: sum / pixels, shadows: shadows / pixels, highlights: highlights / pixels };
+  }
+
+  private stateFor(streamId: string): SceneState {
+    let state = this.states.get(streamId);
+    if (!state) {
+      state = { profile: 'day', candidate: null, confirmations: 0, lastSampleAt: 0 };
+      this.states.set(streamId, state);
+    }
+    return state;
+  }
+}
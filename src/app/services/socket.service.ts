@@ -1,33 +1,45 @@
 import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
 import { isPlatformBrowser } from '@angular/common';
 import { io, Socket } from 'socket.io-client';
-import { PlateDetectionResult } from '../interfaces/plate-detection.interface';
-import { environment } from '../../environments/environment';
-import { WebPDetectionService } from './webp-detection.service';
+import { AnalysisAck, EncodedImage, PlateDetectionResult } from '../interfaces/plate-detection.interface';
+import { AnalysisTransport, FrameMetadata } from '../core/abstractions/analysis-transport.abstract';
+import { BackendRegistryService } from './backend-registry.service';
+import { AuthService } from './auth.service';
+import { ProtocolService } from './protocol.service';
 
+/**
+ * Transporte Socket.IO (transporte principal)
+ */
 @Injectable({
   providedIn: 'root'
 })
-export class SocketService {
-  private socket!: Socket;
+export class SocketService extends AnalysisTransport {
+  private socket: Socket | null = null;
   private connected = new BehaviorSubject<boolean>(false);
-  private messages = new BehaviorSubject<PlateDetectionResult | null>(null);
+  private messages = new Subject<PlateDetectionResult | null>();
+  private failures = new Subject<string>();
 
-  private readonly SOCKET_URL = environment.apiUrl;
-  private clientId: string = '';
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private manualDisconnect = false;
+  private readonly ACK_TIMEOUT = 5000; // Espera máxima del ack de 'analyze-image'
   private isBrowser: boolean;
 
   constructor(
     @Inject(PLATFORM_ID) private platformId: Object,
-    private webPDetectionService: WebPDetectionService
+    private backendRegistry: BackendRegistryService,
+    private authService: AuthService,
+    private protocolService: ProtocolService
   ) {
+    super();
     this.isBrowser = isPlatformBrowser(this.platformId);
-    if (this.isBrowser) {
-      this.connectToSocket();
-    }
+  }
+
+  connect(): void {
+    this.manualDisconnect = false;
+    this.reconnectAttempts = 0;
+    this.connectToSocket();
   }
 
   connectToSocket(): void {
@@ -35,10 +47,14 @@ export class SocketService {
       console.log('🚫 Socket.IO no disponible en entorno SSR');
       return;
     }
-    
+
+    this.closeSocket();
+
     try {
-      this.socket = io(this.SOCKET_URL, {
-        reconnectionAttempts: this.maxReconnectAttempts
+      this.socket = io(this.backendRegistry.activeUrl, {
+        reconnectionAttempts: this.maxReconnectAttempts,
+        // Función: cada reconexión envía el token vigente (ya renovado)
+        auth: (callback) => callback({ token: this.authService.token })
       });
 
       this.socket.on('connect', () => {
@@ -50,16 +66,34 @@ export class SocketService {
       this.socket.on('disconnect', () => {
         console.log('📵 Desconectado del servidor Socket.IO');
         this.connected.next(false);
-        this.attemptReconnect();
+        if (!this.manualDisconnect) {
+          this.attemptReconnect();
+        }
       });
 
-      this.socket.on('analysis-result', (data: PlateDetectionResult) => {
-        this.messages.next(data);
+      this.socket.on('analysis-result', (data: unknown) => {
+        this.messages.next(this.protocolService.parseResult(data, 'socket.io'));
       });
 
       this.socket.on('error', (error: any) => {
         console.error('❌ Error en Socket.IO:', error);
       });
+
+      // El middleware del servidor rechaza el handshake con Error('unauthorized')
+      this.socket.on('connect_error', (error: Error) => {
+        if (error.message === 'unauthorized') {
+          this.handleUnauthorized('handshake rechazado');
+        }
+      });
+
+      // Token revocado o expirado durante la sesión
+      this.socket.on('unauthorized', () => {
+        this.handleUnauthorized('token rechazado por el servidor');
+      });
+
+      this.socket.io.on('reconnect_failed', () => {
+        this.reportFailure('Socket.IO no pudo establecer conexión');
+      });
     } catch (error) {
       console.error('❌ Error conectando Socket.IO:', error);
       this.attemptReconnect();
@@ -70,80 +104,114 @@ export class SocketService {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
       console.log(`🔄 Intentando reconectar... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      
+
       setTimeout(() => {
-        this.connectToSocket();
+        if (!this.manualDisconnect) {
+          this.connectToSocket();
+        }
       }, 2000 * this.reconnectAttempts); // Backoff exponencial
     } else {
       console.error('❌ Máximo de intentos de reconexión alcanzado');
+      this.reportFailure('Máximo de intentos de reconexión alcanzado');
     }
   }
 
-  async sendImageForAnalysis(imageBlob: Blob): Promise<void> {
-    if (!this.socket || !this.socket.connected) {
+  /**
+   * Enviar imagen para análisis etiquetada con su requestId.
+   * Resuelve con el ack del servidor, o null si no hubo confirmación a tiempo.
+   */
+  async sendImageForAnalysis(image: EncodedImage, frame: FrameMetadata): Promise<AnalysisAck | null> {
+    const { requestId } = frame;
+
+    if (!this.isConnected()) {
       console.error('❌ Socket.IO no conectado');
-      return;
+      return null;
+    }
+
+    let payload;
+    try {
+      payload = await this.buildImagePayload(image, frame, this.authService.clientId);
+    } catch (error) {
+      console.error('❌ Error leyendo archivo:', error);
+      return null;
     }
 
-    // FORZAR WebP - Ya no depende de detección automática
-    const forcedFormat = 'image/webp';
-    
-    console.log('🚀 CONVERSIÓN WebP FORZADA:', {
-      formatoOriginal: imageBlob.type,
-      formatoForzado: forcedFormat,
-      tamañoOriginal: imageBlob.size,
-      socketConnected: this.socket.connected
+    console.log(`📤 Enviando imagen ${payload.format} [${requestId}]: ${payload.size} bytes`);
+
+    const ack = await this.emitWithAck<AnalysisAck>('analyze-image', payload, this.ACK_TIMEOUT, {
+      requestId,
+      accepted: true
     });
+    if (!ack) {
+      console.warn(`⚠️ Sin ack del servidor para ${requestId}`);
+    }
+    return ack;
+  }
 
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (reader.result) {
-        const imageData = new Uint8Array(reader.result as ArrayBuffer);
-        
-        console.log('🎨 Imagen WebP lista para envío:', {
-          arrayLength: imageData.length,
-          formatoFinal: forcedFormat,
-          tamañoFinalKB: `${(imageData.length / 1024).toFixed(2)}KB`
+  /**
+   * Emitir evento esperando confirmación del servidor.
+   * Resuelve con la respuesta del ack (o `fallback` si llegó vacío), o null si expiró.
+   */
+  emitWithAck<T>(event: string, payload: any, timeout: number = this.ACK_TIMEOUT, fallback?: T): Promise<T | null> {
+    const socket = this.socket;
+    if (!socket || !socket.connected) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      socket
+        .timeout(timeout)
+        .emit(event, payload, (error: Error | null, response?: T) => {
+          resolve(error ? null : (response ?? fallback ?? null));
         });
-        
-        // Payload optimizado con WebP forzado
-        const payload = {
-          clientId: this.clientId,
-          data: imageData,
-          format: forcedFormat, // SIEMPRE WebP
-          size: imageData.length,
-          optimization: {
-            originalFormat: imageBlob.type,
-            targetFormat: forcedFormat,
-            forced: true // Indicar que es conversión forzada
-          }
-        };
-        
-        console.log(`📤 Enviando imagen WebP: ${payload.size} bytes`);
-        this.socket.emit('analyze-image', payload);
-      } else {
-        console.error('❌ FileReader result is null');
-      }
-    };
-    
-    reader.onerror = (error) => {
-      console.error('❌ Error leyendo archivo:', error);
-    };
-    
-    reader.readAsArrayBuffer(imageBlob);
+    });
   }
 
   handleAnalysisResult(): Observable<PlateDetectionResult | null> {
     return this.messages.asObservable();
   }
 
+  isConnected(): boolean {
+    return !!this.socket && this.socket.connected;
+  }
+
   isConnected$(): Observable<boolean> {
     return this.connected.asObservable();
   }
 
+  connectionFailed$(): Observable<string> {
+    return this.failures.asObservable();
+  }
+
   disconnect(): void {
+    this.manualDisconnect = true;
+    this.closeSocket();
+  }
+
+  /**
+   * Cerrar el socket actual sin disparar la reconexión automática
+   */
+  private closeSocket(): void {
     if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.io.removeAllListeners();
       this.socket.disconnect();
+      this.socket = null;
+      this.connected.next(false);
     }
   }
+
+  /**
+   * Credenciales inválidas: no reintentar, pedir login
+   */
+  private handleUnauthorized(reason: string): void {
+    this.manualDisconnect = true;
+    this.closeSocket();
+    this.authService.handleUnauthorized(reason);
+  }
+
+  private reportFailure(reason: string): void {
+    this.closeSocket();
+    this.failures.next(reason);
+  }
 }
@@ -2,7 +2,8 @@ import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { isPlatformBrowser } from '@angular/common';
 import { saveAs } from 'file-saver';
-import { StoredImage } from '../interfaces/plate-detection.interface';
+import { FrameQuality, StoredClip, StoredImage } from '../interfaces/plate-detection.interface';
+import { EventClip } from '../core/abstractions/camera.abstract';
 
 @Injectable({
   providedIn: 'root'
@@ -11,8 +12,11 @@ export class StorageService {
   private storedImagesSubject = new BehaviorSubject<StoredImage[]>([]);
   private readonly STORAGE_KEY = 'irix_stored_images';
   private readonly MAX_STORED_IMAGES = 100; // Máximo de imágenes en memoria
+  private readonly MAX_STORED_CLIPS = 20; // Los clips pesan bastante más que las imágenes
+  private storedClipsSubject = new BehaviorSubject<StoredClip[]>([]);
 
   public storedImages$ = this.storedImagesSubject.asObservable();
+  public storedClips$ = this.storedClipsSubject.asObservable();
   private imageCache: Map<string, Blob> = new Map();
   private isBrowser: boolean;
 
@@ -75,11 +79,16 @@ export class StorageService {
     imageBlob: Blob,
     detectedPlates?: string[],
     vehicleColor?: string,
-    vehicleDescription?: string
+    vehicleDescription?: string,
+    source?: string,
+    quality?: FrameQuality,
+    capture?: { captureId: string; frameOffset?: number }
   ): string {
     const timestamp = Date.now();
     const imageId = this.generateImageId();
-    const filename = this.generateFilename(timestamp, detectedPlates);
+    // Los frames del buffer HD de una misma captura se distinguen por su posición
+    const suffix = capture?.frameOffset === undefined ? '' : `_f${capture.frameOffset > 0 ? '+' : ''}${capture.frameOffset}`;
+    const filename = this.generateFilename(timestamp, detectedPlates, suffix);
 
     const storedImage: StoredImage = {
       id: imageId,
@@ -88,7 +97,13 @@ export class StorageService {
       blob: imageBlob,
       detectedPlates,
       vehicleColor,
-      vehicleDescription
+      vehicleDescription,
+      source,
+      quality,
+      captureId: capture?.captureId,
+      frameOffset: capture?.frameOffset,
+      // El clip puede haberse guardado antes que los frames del buffer
+      clipId: capture ? this.storedClipsSubject.value.find(clip => clip.captureIds.includes(capture.captureId))?.id : undefined
     };
 
     // Almacenar en caché y lista
@@ -125,7 +140,116 @@ export class StorageService {
   }
 
   /**
-   * Descargar todas las imágenes con placas detectadas
+   * Guardar en memoria el clip de un evento y enlazarlo a las imágenes de su detección.
+   * Varias detecciones del mismo vehículo comparten clip: solo se añade el enlace.
+   */
+  saveClip(clip: EventClip, trigger: StoredClip['trigger'], captureId?: string, detectedPlates?: string[]): string {
+    const existing = this.storedClipsSubject.value.find(stored => stored.id === clip.id);
+
+    if (existing) {
+      if (captureId && !existing.captureIds.includes(captureId)) {
+        existing.captureIds = [...existing.captureIds, captureId];
+        this.storedClipsSubject.next([...this.storedClipsSubject.value]);
+      }
+    } else {
+      const storedClip: StoredClip = {
+        id: clip.id,
+        streamId: clip.streamId,
+        timestamp: clip.eventAt,
+        filename: this.generateFilename(clip.eventAt, detectedPlates, '', 'webm'),
+        blob: clip.blob,
+        duration: clip.endedAt - clip.startedAt,
+        preRoll: clip.eventAt - clip.startedAt,
+        trigger,
+        captureIds: captureId ? [captureId] : []
+      };
+      this.storedClipsSubject.next([storedClip, ...this.storedClipsSubject.value].slice(0, this.MAX_STORED_CLIPS));
+      console.log(`🎬 Clip almacenado en memoria: ${storedClip.filename} (${(clip.blob.size / 1024).toFixed(0)}KB)`);
+    }
+
+    if (captureId) {
+      this.storedImagesSubject.next(this.storedImagesSubject.value.map(img =>
+        img.captureId === captureId ? { ...img, clipId: clip.id } : img
+      ));
+      this.saveStoredImages();
+    }
+    return clip.id;
+  }
+
+  /**
+   * Descargar un clip por ID
+   */
+  downloadClip(clipId: string): void {
+    if (!this.isBrowser) {
+      console.log('🚫 Descarga de archivos no disponible en entorno SSR');
+      return;
+    }
+
+    const clip = this.storedClipsSubject.value.find(stored => stored.id === clipId);
+    if (!clip) {
+      throw new Error(`Clip con ID ${clipId} no encontrado`);
+    }
+
+    saveAs(clip.blob, clip.filename);
+    console.log(`⬇️ Descargando clip: ${clip.filename}`);
+  }
+
+  /**
+   * Descargar todo lo guardado de una detección: imágenes HD y su clip de video
+   */
+  async downloadDetection(captureId: string): Promise<void> {
+    if (!this.isBrowser) {
+      console.log('🚫 Descarga de archivos no disponible en entorno SSR');
+      return;
+    }
+
+    const images = this.storedImagesSubject.value.filter(img => img.captureId === captureId);
+    const clip = this.storedClipsSubject.value.find(stored => stored.captureIds.includes(captureId));
+
+    for (const image of images) {
+      const blob = this.imageCache.get(image.id);
+      if (blob) {
+        saveAs(blob, image.filename);
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+    if (clip) {
+      saveAs(clip.blob, clip.filename);
+    }
+
+    console.log(`📦 Descargando detección ${captureId}: ${images.length} imágenes${clip ? ' + clip' : ''}`);
+  }
+
+  /**
+   * Descargar un clip con las imágenes HD de todas las detecciones que comparte
+   * (varias detecciones del mismo vehículo quedan en un solo clip)
+   */
+  async downloadClipWithDetections(clipId: string): Promise<void> {
+    if (!this.isBrowser) {
+      console.log('🚫 Descarga de archivos no disponible en entorno SSR');
+      return;
+    }
+
+    const clip = this.storedClipsSubject.value.find(stored => stored.id === clipId);
+    if (!clip) {
+      throw new Error(`Clip con ID ${clipId} no encontrado`);
+    }
+
+    const images = this.storedImagesSubject.value.filter(img => img.captureId !== undefined && clip.captureIds.includes(img.captureId));
+    for (const image of images) {
+      const blob = this.imageCache.get(image.id);
+      if (blob) {
+        saveAs(blob, image.filename);
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+    saveAs(clip.blob, clip.filename);
+
+    console.log(`📦 Descargando clip ${clip.filename}: ${clip.captureIds.length} detecciones, ${images.length} imágenes`);
+  }
+
+  /**
+   * Descargar todas las imágenes con placas detectadas (y sus clips)
    */
   async downloadAllPlateImages(): Promise<void> {
     if (!this.isBrowser) {
@@ -150,7 +274,13 @@ export class StorageService {
       }
     }
 
-    console.log(`📦 Descargando ${plateImages.length} imágenes con placas detectadas`);
+    const clipIds = new Set(plateImages.map(img => img.clipId).filter(clipId => clipId !== undefined));
+    for (const clip of this.storedClipsSubject.value.filter(stored => clipIds.has(stored.id))) {
+      saveAs(clip.blob, clip.filename);
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    console.log(`📦 Descargando ${plateImages.length} imágenes con placas detectadas y ${clipIds.size} clips`);
   }
 
   /**
@@ -160,6 +290,7 @@ export class StorageService {
     totalImages: number;
     imagesWithPlates: number;
     totalSizeEstimate: string;
+    averageQualityScore: number | null; // Media de las imágenes con calidad medida
     oldestImage?: Date;
     newestImage?: Date;
   } {
@@ -171,6 +302,11 @@ export class StorageService {
     const totalSizeBytes = storedImages.length * avgImageSize;
     const totalSizeEstimate = this.formatFileSize(totalSizeBytes);
 
+    const scores = storedImages
+      .map(img => img.quality?.score)
+      .filter((score): score is number => score !== undefined);
+    const averageQualityScore = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+
     const timestamps = storedImages.map(img => img.timestamp);
     const oldestImage = timestamps.length > 0 ? new Date(Math.min(...timestamps)) : undefined;
     const newestImage = timestamps.length > 0 ? new Date(Math.max(...timestamps)) : undefined;
@@ -179,6 +315,7 @@ export class StorageService {
       totalImages: storedImages.length,
       imagesWithPlates: imagesWithPlates.length,
       totalSizeEstimate,
+      averageQualityScore,
       oldestImage,
       newestImage
     };
@@ -203,6 +340,7 @@ export class StorageService {
 
     this.storedImagesSubject.next(recentImages);
     this.saveStoredImages();
+    this.storedClipsSubject.next(this.storedClipsSubject.value.filter(clip => clip.timestamp > cutoffTime));
 
     if (removedCount > 0) {
       console.log(`🧹 Limpiadas ${removedCount} imágenes antiguas`);
@@ -214,6 +352,7 @@ export class StorageService {
    */
   clearAllImages(): void {
     this.storedImagesSubject.next([]);
+    this.storedClipsSubject.next([]);
     this.imageCache.clear();
     this.saveStoredImages();
     console.log('🗑️ Todas las imágenes almacenadas han sido eliminadas');
@@ -247,7 +386,7 @@ export class StorageService {
   /**
    * Generar nombre de archivo optimizado para placas vehiculares
    */
-  private generateFilename(timestamp: number, detectedPlates?: string[]): string {
+  private generateFilename(timestamp: number, detectedPlates?: string[], suffix: string = '', extension: string = 'jpg'): string {
     const date = new Date(timestamp);
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -264,10 +403,10 @@ export class StorageService {
         .toUpperCase()
         .slice(0, 20); // Limitar longitud
       
-      return `IRIX_PLACA_${plateStr}_${dateStr}.jpg`;
+      return `IRIX_PLACA_${plateStr}_${dateStr}${suffix}.${extension}`;
     }
     
-    return `IRIX_VEHÍCULO_${dateStr}.jpg`;
+    return `IRIX_VEHÍCULO_${dateStr}${suffix}.${extension}`;
   }
 
   /**
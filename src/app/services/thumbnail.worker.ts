@@ -0,0 +1,118 @@
+/// <reference lib="webworker" />
+
+import * as pica from 'pica';
+import { EncodedImage } from '../interfaces/plate-detection.interface';
+import { ThumbnailPreprocessing, ThumbnailWorkerRequest, ThumbnailWorkerResponse } from '../interfaces/thumbnail-worker.interface';
+
+// convertToBlob aún no está en lib.webworker de TypeScript
+interface BlobEncodeOptions {
+  type?: string;
+  quality?: number;
+}
+
+type EncodableCanvas = OffscreenCanvas & { convertToBlob(options?: BlobEncodeOptions): Promise<Blob> };
+
+// Pica redimensiona entre OffscreenCanvas, pero sus tipos solo declaran HTMLCanvasElement
+interface OffscreenResizer {
+  resize(from: OffscreenCanvas, to: OffscreenCanvas, options?: pica.PicaResizeOptions): Promise<OffscreenCanvas>;
+}
+
+/**
+ * Pipeline de thumbnails fuera del hilo principal: el ImageBitmap llega
+ * transferido (sin copia), se ajusta y redimensiona con Pica sobre OffscreenCanvas
+ * y se comprime igual que en ImageProcessorService: bajando calidad hasta entrar
+ * en `maxBytes` y con JPEG si el navegador no sabe codificar el formato pedido.
+ */
+
+const MAX_ATTEMPTS = 5;
+const MIN_QUALITY = 0.3;
+
+const resizer: OffscreenResizer = pica({
+  features: ['js', 'wasm'], // Ya estamos en un worker: sin workers anidados
+  createCanvas: (width: number, height: number) => new OffscreenCanvas(width, height)
+}) as unknown as OffscreenResizer;
+
+addEventListener('message', async ({ data }: MessageEvent<ThumbnailWorkerRequest>) => {
+  const response: ThumbnailWorkerResponse = { id: data.id };
+
+  try {
+    const canvas = await resize(data.bitmap, data.encoding.width, data.encoding.height, data.preprocessing);
+    response.thumbnail = await compress(canvas, data.encoding.format, data.encoding.quality, data.maxBytes);
+  } catch (error) {
+    response.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    data.bitmap.close();
+  }
+
+  postMessage(response);
+});
+
+async function resize(
+  source: ImageBitmap,
+  targetW: number,
+  targetH: number,
+  preprocessing: ThumbnailPreprocessing
+): Promise<EncodableCanvas> {
+  const sourceCanvas = new OffscreenCanvas(source.width, source.height);
+  const sourceCtx = sourceCanvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
+  if (!sourceCtx) {
+    throw new Error('OffscreenCanvas sin contexto 2D en el worker');
+  }
+
+  // Brillo/contraste del perfil de escena al copiar el frame
+  if (preprocessing.brightness !== 1 || preprocessing.contrast !== 1) {
+    sourceCtx.filter = `brightness(${preprocessing.brightness}) contrast(${preprocessing.contrast})`;
+  }
+  sourceCtx.drawImage(source, 0, 0);
+
+  const target = new OffscreenCanvas(targetW, targetH) as EncodableCanvas;
+  await resizer.resize(sourceCanvas, target, {
+    unsharpAmount: preprocessing.unsharpAmount,
+    unsharpRadius: preprocessing.unsharpRadius
+  });
+  return target;
+}
+
+async function compress(canvas: EncodableCanvas, format: string, quality: number, maxBytes: number): Promise<EncodedImage> {
+  let currentQuality = quality;
+
+  try {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const blob = await encode(canvas, format, currentQuality);
+      if (blob.size <= maxBytes || currentQuality * 0.8 < MIN_QUALITY) {
+        return encoded(blob, currentQuality, canvas);
+      }
+      currentQuality *= 0.8;
+    }
+    return encoded(await encode(canvas, format, currentQuality), currentQuality, canvas);
+  } catch (formatError) {
+    if (format === 'image/jpeg') {
+      throw formatError;
+    }
+
+    // Fallback a JPEG con compresión agresiva
+    const jpegQuality = Math.min(quality * 0.6, 0.5);
+    return encoded(await encode(canvas, 'image/jpeg', jpegQuality), jpegQuality, canvas);
+  }
+}
+
+async function encode(canvas: EncodableCanvas, mimeType: string, quality: number): Promise<Blob> {
+  const blob = await canvas.convertToBlob({ type: mimeType, quality });
+  if (blob.size > 0 && blob.type === mimeType) {
+    return blob;
+  }
+  // El navegador ignoró el formato pedido y codificó otro
+  throw new Error(blob.size > 0 ? `El navegador codificó ${blob.type} en lugar de ${mimeType}` : `Error comprimiendo a ${mimeType}`);
+}
+
+function encoded(blob: Blob, quality: number, canvas: EncodableCanvas): EncodedImage {
+  return {
+    blob,
+    encoding: {
+      format: blob.type,
+      quality: Math.round(quality * 100) / 100,
+      width: canvas.width,
+      height: canvas.height
+    }
+  };
+}
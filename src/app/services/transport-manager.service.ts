@@ -0,0 +1,182 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, distinctUntilChanged, filter, skip, switchMap } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { AnalysisAck, EncodedImage, PlateDetectionResult } from '../interfaces/plate-detection.interface';
+import { AnalysisTransport, FrameMetadata, TransportType } from '../core/abstractions/analysis-transport.abstract';
+import { SocketService } from './socket.service';
+import { WebSocketTransportService } from './websocket-transport.service';
+import { HttpTransportService } from './http-transport.service';
+import { BackendRegistryService } from './backend-registry.service';
+import { AuthService } from './auth.service';
+import { ProtocolService } from './protocol.service';
+import { ImageFormatService } from './image-format.service';
+import { environment } from '../../environments/environment';
+
+/**
+ * Transporte compuesto: usa el primero de `environment.transports`
+ * y pasa al siguiente cuando uno agota sus reintentos de conexión
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TransportManagerService extends AnalysisTransport {
+  private readonly transports: Record<TransportType, AnalysisTransport>;
+  private readonly order: TransportType[] = environment.transports as TransportType[];
+  private active = new BehaviorSubject<TransportType>(this.order[0]);
+  private failures = new Subject<string>();
+  private retryTimer: any;
+  private isBrowser: boolean;
+
+  private readonly FULL_CYCLE_DELAY = 10000; // Pausa antes de volver al primer transporte
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    socketIoTransport: SocketService,
+    webSocketTransport: WebSocketTransportService,
+    httpTransport: HttpTransportService,
+    private backendRegistry: BackendRegistryService,
+    private authService: AuthService,
+    private protocolService: ProtocolService,
+    private imageFormatService: ImageFormatService
+  ) {
+    super();
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    this.transports = {
+      'socket.io': socketIoTransport,
+      'websocket': webSocketTransport,
+      'http': httpTransport
+    };
+
+    Object.entries(this.transports).forEach(([type, transport]) => {
+      transport.connectionFailed$().subscribe(reason => this.handleFailure(type as TransportType, reason));
+    });
+
+    // Al cambiar de backend se reconecta empezando por el transporte preferido
+    this.backendRegistry.activeBackend$.pipe(
+      distinctUntilChanged((a, b) => a.url === b.url),
+      skip(1)
+    ).subscribe(() => {
+      clearTimeout(this.retryTimer);
+      this.current.disconnect();
+      this.active.next(this.order[0]);
+      if (this.isBrowser) {
+        this.connect();
+      }
+    });
+
+    // Negociar versión de protocolo cada vez que el transporte activo conecta
+    this.isConnected$().pipe(
+      distinctUntilChanged(),
+      filter(connected => connected)
+    ).subscribe(() => this.negotiateProtocol());
+
+    // Conectar solo con sesión iniciada; al perderla se corta el transporte
+    this.authService.isAuthenticated$.pipe(distinctUntilChanged()).subscribe(authenticated => {
+      if (!this.isBrowser) return;
+
+      if (authenticated) {
+        this.connect();
+      } else {
+        clearTimeout(this.retryTimer);
+        this.disconnect();
+      }
+    });
+  }
+
+  connect(): void {
+    if (!this.authService.token) {
+      console.log('🔐 Sin sesión: conexión pendiente de login');
+      return;
+    }
+
+    console.log(`🔌 Conectando con transporte ${this.active.value} a ${this.backendRegistry.activeUrl}`);
+    this.current.connect();
+  }
+
+  disconnect(): void {
+    this.current.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.current.isConnected();
+  }
+
+  sendImageForAnalysis(image: EncodedImage, frame: FrameMetadata): Promise<AnalysisAck | null> {
+    return this.current.sendImageForAnalysis(image, frame);
+  }
+
+  emitWithAck<T>(event: string, payload: any, timeout?: number, fallback?: T): Promise<T | null> {
+    return this.current.emitWithAck<T>(event, payload, timeout, fallback);
+  }
+
+  isConnected$(): Observable<boolean> {
+    return this.active.pipe(switchMap(type => this.transports[type].isConnected$()));
+  }
+
+  handleAnalysisResult(): Observable<PlateDetectionResult | null> {
+    return this.active.pipe(switchMap(type => this.transports[type].handleAnalysisResult()));
+  }
+
+  connectionFailed$(): Observable<string> {
+    return this.failures.asObservable();
+  }
+
+  /**
+   * Observable del transporte activo
+   */
+  get activeTransport$(): Observable<TransportType> {
+    return this.active.asObservable();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private get current(): AnalysisTransport {
+    return this.transports[this.active.value];
+  }
+
+  /**
+   * Negociar protocolo y formato de imagen; un backend con protocolo
+   * incompatible se trata como caído
+   */
+  private async negotiateProtocol(): Promise<void> {
+    const type = this.active.value;
+    const compatible = await this.protocolService.negotiate(this.current, type);
+
+    if (type !== this.active.value) return;
+
+    if (!compatible) {
+      console.error(`❌ Protocolo incompatible con ${this.backendRegistry.activeUrl}`);
+      this.current.disconnect();
+      this.backendRegistry.reportFailure('versión de protocolo incompatible');
+      return;
+    }
+
+    // Con el protocolo acordado, acordar formato y tamaño de las imágenes
+    await this.imageFormatService.negotiate(this.current);
+  }
+
+  /**
+   * Pasar al siguiente transporte configurado
+   */
+  private handleFailure(type: TransportType, reason: string): void {
+    if (type !== this.active.value) return;
+
+    this.current.disconnect();
+    const index = this.order.indexOf(type);
+    const next = this.order[(index + 1) % this.order.length];
+    const wrapped = index + 1 >= this.order.length;
+
+    console.warn(`🔀 Transporte ${type} falló (${reason}), cambiando a ${next}`);
+    this.failures.next(`${type}: ${reason}`);
+
+    // Ningún transporte llega a este backend: failover a otro (reconecta vía activeBackend$)
+    if (wrapped && this.backendRegistry.reportFailure('sin transporte disponible')) {
+      return;
+    }
+
+    this.active.next(next);
+
+    // Tras agotar todos los transportes se espera antes de empezar otra ronda
+    this.retryTimer = setTimeout(() => this.connect(), wrapped ? this.FULL_CYCLE_DELAY : 0);
+  }
+}
@@ -0,0 +1,1230 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { ImageProcessorService } from './image-processor.service';
+import { CaptureSchedulerService } from './capture-scheduler.service';
+import { ImageFormatService } from './image-format.service';
+import { CropRect } from './image-processor.service';
+import { RoiService } from './roi.service';
+import { MotionDetectorService } from './motion-detector.service';
+import { FrameQualityService } from './frame-quality.service';
+import { FrameBufferService } from './frame-buffer.service';
+import { ClipRecorderService } from './clip-recorder.service';
+import { SceneProfileService } from './scene-profile.service';
+import { CameraWatchdogService } from './camera-watchdog.service';
+import { EncodedImage, FrameQuality } from '../interfaces/plate-detection.interface';
+import {
+  BufferedFrame,
+  CameraConfiguration,
+  CameraControlValues,
+  CameraFailureReason,
+  CameraHealth,
+  CameraService,
+  CameraTrackControls,
+  CameraStatistics,
+  CameraStreamConfig,
+  EventClip,
+  StreamCaptureStats
+} from '../core/abstractions/camera.abstract';
+import { environment } from '../../environments/environment';
+
+// ImageCapture (Chromium) aún no está en lib.dom de TypeScript
+interface PhotoCapabilities {
+  imageWidth?: { min: number; max: number; step: number };
+  imageHeight?: { min: number; max: number; step: number };
+  fillLightMode?: string[];
+  redEyeReduction?: 'never' | 'always' | 'controllable';
+}
+
+interface PhotoSettings {
+  imageWidth?: number;
+  imageHeight?: number;
+  fillLightMode?: string;
+  redEyeReduction?: boolean;
+}
+
+interface ImageCaptureLike {
+  getPhotoCapabilities(): Promise<PhotoCapabilities>;
+  takePhoto(settings?: PhotoSettings): Promise<Blob>;
+}
+
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => ImageCaptureLike;
+
+// globalThis con el constructor, que solo existe en los navegadores que lo implementan
+type ImageCaptureGlobal = typeof globalThis & { ImageCapture?: ImageCaptureConstructor };
+
+interface CameraStream {
+  config: CameraStreamConfig;
+  mediaStream: MediaStream | null;
+  videoElement: HTMLVideoElement | null;
+  captureTimer: any;
+  captureSession: number; // Invalida ciclos de captura de sesiones anteriores
+  pendingPhoto: Promise<Blob | null> | null; // Una foto a la vez por cámara
+  recoveryTimer: any; // Reinicio programado por el vigilante
+  lastRecoveredAt: number;
+  controlOverrides: CameraControlValues; // Ajustes del operador: prevalecen sobre configuración y perfil de escena
+  stats: StreamCaptureStats;
+}
+
+/**
+ * Cámara real: abre los dispositivos de video del navegador con getUserMedia
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class UserMediaCameraService extends CameraService {
+  readonly simulated: boolean = false;
+
+  private streams = new Map<string, CameraStream>();
+  private streamStats = new BehaviorSubject<StreamCaptureStats[]>([]);
+  private activeDevices = new BehaviorSubject<Record<string, string>>({}); // streamId → deviceId abierto
+  private health = new BehaviorSubject<Record<string, CameraHealth>>({});
+  private readonly watchdogConfig = environment.watchdog;
+  private readonly DEVICE_SELECTION_KEY = 'irix_camera_devices';
+  private isBrowser: boolean;
+  private isCapturing = new BehaviorSubject<boolean>(false);
+  private statsSubject = new BehaviorSubject<CameraStatistics>({
+    totalFramesCaptured: 0,
+    averageFPS: 0,
+    lastCaptureTime: 0,
+    thumbnailsSent: 0,
+    hdImagesSaved: 0,
+    detectedPlates: 0,
+    totalImages: 0,
+    captureInterval: 0,
+    effectiveRate: 0,
+    skippedFrames: 0,
+    motionSkippedFrames: 0,
+    qualityRejectedFrames: 0,
+    averageQualityScore: 0,
+  });
+  private stats: CameraStatistics = {
+    totalFramesCaptured: 0,
+    averageFPS: 0,
+    lastCaptureTime: 0,
+    hdImagesSaved: 0,
+    thumbnailsSent: 0,
+    detectedPlates: 0,
+    totalImages: 0,
+    captureInterval: 0,
+    effectiveRate: 0,
+    skippedFrames: 0,
+    motionSkippedFrames: 0,
+    qualityRejectedFrames: 0,
+    averageQualityScore: 0,
+  };
+
+  // Configuración para VISUALIZACIÓN EN MÓVILES (optimizada para UX)
+  private mobileDisplayConfig: CameraConfiguration = {
+    width: 640, // Resolución móvil cómoda
+    height: 480, // 4:3 para mejor visualización móvil
+    frameRate: 30, // Fluido para visualización
+    facingMode: 'environment', // Cámara trasera
+    focusMode: 'continuous',
+  };
+
+  // Configuración para VISUALIZACIÓN EN DESKTOP
+  private displayConfig: CameraConfiguration = {
+    width: 1280, // HD cómodo para visualización
+    height: 720, // 16:9 estándar
+    frameRate: 30, // Fluido para visualización
+    facingMode: 'environment', // Cámara trasera
+    focusMode: 'continuous',
+  };
+
+  // Configuración profesional para CAPTURA HD (cuando se detecta placa)
+  private professionalConfig: CameraConfiguration = {
+    width: 7728, // 50MP completos solo para captura
+    height: 5792, // Aspect ratio 4:3 para 50MP
+    frameRate: 30, // FPS alto para movimiento de vehículos
+    facingMode: 'environment', // Cámara trasera
+    // Configuraciones ESPECÍFICAS para día soleado y detección de placas
+    exposureMode: 'manual',
+    whiteBalanceMode: 'daylight',
+    focusMode: 'continuous',
+    iso: 64, // ISO más bajo para máxima nitidez
+    shutterSpeed: 1500, // Velocidad MÁS alta para congelar movimiento de vehículos
+    brightness: -0.1, // Ligeramente subexpuesto para evitar saturación de placas blancas
+    contrast: 1.3, // MAYOR contraste para definir mejor las placas
+    saturation: 0.9, // Saturación reducida para mejor lectura de caracteres
+    fillLightMode: 'off', // Sin flash: las placas retrorreflectivas se queman
+    redEyeReduction: false, // El preflash retrasa el disparo
+  };
+
+  private startTime: number = 0;
+  private scoredFrames: number = 0; // Frames enviados con calidad medida (para la media)
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    private imageProcessor: ImageProcessorService,
+    private scheduler: CaptureSchedulerService,
+    private imageFormat: ImageFormatService,
+    private roiService: RoiService,
+    private motionDetector: MotionDetectorService,
+    private frameQuality: FrameQualityService,
+    private frameBuffer: FrameBufferService,
+    private clipRecorder: ClipRecorderService,
+    private sceneProfiles: SceneProfileService,
+    private watchdog: CameraWatchdogService
+  ) {
+    super();
+    this.isBrowser = isPlatformBrowser(this.platformId);
+    environment.streams.forEach(config => {
+      this.streams.set(config.id, {
+        config,
+        mediaStream: null,
+        videoElement: null,
+        captureTimer: null,
+        captureSession: 0,
+        pendingPhoto: null,
+        recoveryTimer: null,
+        lastRecoveredAt: 0,
+        controlOverrides: {},
+        stats: {
+          streamId: config.id,
+          label: config.label,
+          capturing: false,
+          framesCaptured: 0,
+          skippedFrames: 0,
+          motionSkippedFrames: 0,
+          qualityRejectedFrames: 0,
+          detectedPlates: 0,
+          lastCaptureTime: 0
+        }
+      });
+    });
+    this.publishStreamStats();
+  }
+
+  /**
+   * Streams configurados para este punto de control
+   */
+  get streamConfigs(): CameraStreamConfig[] {
+    return Array.from(this.streams.values()).map(stream => ({ ...stream.config }));
+  }
+
+  /**
+   * Stream usado cuando no se indica uno
+   */
+  get defaultStreamId(): string {
+    return environment.streams[0].id;
+  }
+
+  /**
+   * Inicializar cámara de un stream con configuración optimizada para visualización.
+   * Si el stream ya está abierto (o reiniciándose) se reutiliza su elemento de video.
+   */
+  async initializeCamera(streamId: string = this.defaultStreamId): Promise<HTMLVideoElement> {
+    const cameraStream = this.getStream(streamId);
+    if (cameraStream.videoElement && (cameraStream.mediaStream || this.isRecovering(cameraStream))) {
+      return cameraStream.videoElement;
+    }
+
+    try {
+      console.log(`📷 Inicializando cámara [${streamId}] con configuración optimizada para visualización...`);
+
+      cameraStream.mediaStream = await this.openMediaStream(streamId);
+
+      // Crear elemento de video
+      const videoElement = document.createElement('video');
+      videoElement.srcObject = cameraStream.mediaStream;
+      videoElement.autoplay = true;
+      videoElement.playsInline = true;
+      videoElement.dataset['streamId'] = streamId;
+      cameraStream.videoElement = videoElement;
+      this.setHealth(streamId, { state: 'healthy', reason: null, restarts: 0, attempts: 0, nextRetryAt: null, lastFailureAt: null });
+      this.watchCamera(cameraStream);
+
+      console.log(`✅ Cámara [${streamId}] inicializada con configuración profesional`);
+      console.log(`📊 Resolución obtenida: ${this.getActualResolution(cameraStream.mediaStream)}`);
+
+      return videoElement;
+    } catch (error) {
+      console.error('❌ Error inicializando cámara:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cambiar en caliente la cámara de un stream. La selección se recuerda
+   * entre sesiones; si el stream está abierto se reemplaza el MediaStream
+   * en el mismo elemento de video y la captura continúa sin interrupción.
+   */
+  async switchDevice(streamId: string, deviceId: string): Promise<void> {
+    const cameraStream = this.getStream(streamId);
+    const previousDeviceId = this.activeDevices.value[streamId];
+    this.saveDeviceSelection(streamId, deviceId);
+
+    if (!cameraStream.mediaStream || !cameraStream.videoElement) {
+      return; // Se usará al inicializar la cámara
+    }
+    if (previousDeviceId === deviceId) {
+      return;
+    }
+
+    console.log(`🔀 Cambiando cámara del stream [${streamId}] a ${deviceId}`);
+
+    // Muchos móviles no abren dos cámaras a la vez: liberar la actual primero
+    this.watchdog.unwatch(streamId);
+    clearTimeout(cameraStream.recoveryTimer);
+    cameraStream.recoveryTimer = null;
+    cameraStream.mediaStream.getTracks().forEach(track => track.stop());
+    cameraStream.mediaStream = null;
+
+    try {
+      cameraStream.mediaStream = await this.openMediaStream(streamId);
+    } catch (error) {
+      console.error(`❌ No se pudo abrir la cámara ${deviceId}, se restaura la anterior:`, error);
+      if (previousDeviceId) {
+        this.saveDeviceSelection(streamId, previousDeviceId);
+      }
+      try {
+        cameraStream.mediaStream = await this.openMediaStream(streamId);
+      } catch (restoreError) {
+        // Sin ninguna de las dos: que el vigilante siga intentándolo
+        this.scheduleRecovery(cameraStream, 'ended');
+        throw restoreError;
+      }
+      cameraStream.videoElement.srcObject = cameraStream.mediaStream;
+      if (cameraStream.stats.capturing) {
+        this.clipRecorder.attach(streamId, cameraStream.mediaStream);
+      }
+      this.watchCamera(cameraStream);
+      throw error;
+    }
+
+    cameraStream.videoElement.srcObject = cameraStream.mediaStream;
+    if (cameraStream.stats.capturing) {
+      this.clipRecorder.attach(streamId, cameraStream.mediaStream);
+    }
+    this.watchCamera(cameraStream);
+
+    const health = this.health.value[streamId];
+    if (health && health.state !== 'healthy') {
+      this.setHealth(streamId, { ...health, state: 'healthy', nextRetryAt: null });
+    }
+    console.log(`✅ Cámara [${streamId}] cambiada: ${this.getActualResolution(cameraStream.mediaStream)}`);
+  }
+
+  /**
+   * Cámara elegida por el usuario para un stream (persistida entre sesiones)
+   */
+  getSelectedDevice(streamId: string = this.defaultStreamId): string | null {
+    return this.loadDeviceSelection()[streamId] ?? null;
+  }
+
+  /**
+   * Observable del deviceId abierto actualmente por cada stream
+   */
+  get activeDevices$(): Observable<Record<string, string>> {
+    return this.activeDevices.asObservable();
+  }
+
+  /**
+   * Abrir el dispositivo de un stream con la configuración de visualización
+   */
+  protected async openMediaStream(streamId: string): Promise<MediaStream> {
+    // Detectar si es móvil y usar configuración apropiada
+    const isMobile = this.isMobileDevice();
+    const config = isMobile ? this.mobileDisplayConfig : this.displayConfig;
+    
+    console.log(`📱 Dispositivo detectado: ${isMobile ? 'Móvil' : 'Desktop'} - Usando resolución: ${config.width}x${config.height}`);
+
+    const constraints: MediaStreamConstraints = {
+      video: {
+        width: { ideal: config.width, min: 320 },
+        height: { ideal: config.height, min: 240 },
+        frameRate: { ideal: config.frameRate, min: 24 },
+        // Cámara elegida por el usuario o, con varios streams, un dispositivo distinto por stream
+        ...(await this.deviceConstraintFor(streamId, config)),
+
+        // Configuraciones avanzadas (si el navegador las soporta)
+        // Nota: Estas propiedades no están oficialmente en MediaTrackConstraints
+        // pero algunos navegadores pueden soportarlas
+        ...((this.professionalConfig.exposureMode as any) &&
+          ({
+            exposureMode: this.professionalConfig.exposureMode,
+          } as any)),
+        ...((this.professionalConfig.whiteBalanceMode as any) &&
+          ({
+            whiteBalanceMode: this.professionalConfig.whiteBalanceMode,
+          } as any)),
+        ...((this.professionalConfig.focusMode as any) &&
+          ({
+            focusMode: this.professionalConfig.focusMode,
+          } as any)),
+      },
+      audio: false,
+    };
+
+    const mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
+
+    // Aplicar configuraciones avanzadas si están disponibles
+    await this.applyAdvancedSettings(mediaStream, streamId);
+
+    const deviceId = mediaStream.getVideoTracks()[0]?.getSettings().deviceId;
+    if (deviceId) {
+      this.markActiveDevice(streamId, deviceId);
+    }
+
+    return mediaStream;
+  }
+
+  /**
+   * Detectar si es un dispositivo móvil con soporte para SSR
+   */
+  private isMobileDevice(): boolean {
+    if (typeof window === 'undefined') {
+      // Asumir ambiente de servidor no móvil
+      return false;
+    }
+    return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
+      navigator.userAgent
+    ) || window.innerWidth <= 768;
+  }
+
+  /**
+   * La cámara elegida por el usuario tiene prioridad si sigue conectada.
+   * Si no, con un solo stream se pide la cámara trasera; con varios, cada
+   * stream toma la cámara de su misma posición entre los dispositivos de video
+   */
+  private async deviceConstraintFor(streamId: string, config: CameraConfiguration): Promise<MediaTrackConstraints> {
+    const devices = (await navigator.mediaDevices.enumerateDevices())
+      .filter(device => device.kind === 'videoinput');
+
+    const selected = this.getSelectedDevice(streamId);
+    if (selected) {
+      if (devices.some(device => device.deviceId === selected)) {
+        return { deviceId: { exact: selected } };
+      }
+      console.warn(`⚠️ La cámara elegida para ${streamId} ya no está conectada, se usa la predeterminada`);
+    }
+
+    if (this.streams.size === 1) {
+      return { facingMode: { ideal: config.facingMode } };
+    }
+
+    const index = Array.from(this.streams.keys()).indexOf(streamId);
+    const device = devices[index];
+
+    if (!device || !device.deviceId) {
+      console.warn(`⚠️ No hay cámara para el stream ${streamId} (${devices.length} disponibles)`);
+      return { facingMode: { ideal: config.facingMode } };
+    }
+
+    return { deviceId: { exact: device.deviceId } };
+  }
+
+  /**
+   * Aplicar la configuración profesional con los ajustes del perfil de escena
+   * del stream y, por encima, los controles fijados por el operador; solo en
+   * los controles que la cámara anuncia y con valores dentro de sus rangos
+   */
+  private async applyAdvancedSettings(mediaStream: MediaStream, streamId: string): Promise<void> {
+    try {
+      const track = mediaStream.getVideoTracks()[0];
+      const capabilities = track.getCapabilities();
+      const settings = track.getSettings();
+
+      console.log('📋 Capacidades de la cámara:', capabilities);
+      console.log('⚙️ Configuraciones actuales:', settings);
+
+      const profile = this.sceneProfiles.profileFor(streamId);
+      const config = { ...this.professionalConfig, ...profile.constraints };
+      const overrides = this.streams.get(streamId)?.controlOverrides ?? {};
+      const constraints = this.fitToCapabilities(capabilities, {
+        exposureMode: config.exposureMode,
+        whiteBalanceMode: config.whiteBalanceMode,
+        focusMode: config.focusMode,
+        iso: config.iso,
+        // shutterSpeed es 1/x s; exposureTime va en unidades de 100µs
+        exposureTime: config.shutterSpeed ? 10000 / config.shutterSpeed : undefined,
+        brightness: config.brightness,
+        contrast: config.contrast,
+        saturation: config.saturation,
+        ...overrides
+      });
+
+      // Aplicar configuraciones
+      if (Object.keys(constraints).length > 0) {
+        await track.applyConstraints({ advanced: [constraints] } as MediaTrackConstraints);
+        console.log(`✅ Configuraciones profesionales aplicadas [${streamId}] (${profile.label}):`, constraints);
+      } else {
+        console.log(
+          '⚠️ Configuraciones avanzadas no soportadas por este dispositivo'
+        );
+      }
+    } catch (error) {
+      console.warn('⚠️ Error aplicando configuraciones avanzadas:', error);
+    }
+  }
+
+  /**
+   * Quedarse con los valores que la cámara acepta: modos anunciados,
+   * números dentro de [min, max] y booleanos soportados (torch)
+   */
+  private fitToCapabilities(
+    capabilities: MediaTrackCapabilities,
+    wanted: Record<string, string | number | boolean | undefined>
+  ): CameraControlValues {
+    const supported = capabilities as Record<string, any>;
+    const constraints: CameraControlValues = {};
+
+    Object.entries(wanted).forEach(([key, value]) => {
+      const capability = supported[key];
+      if (value === undefined || capability === undefined) return;
+
+      const fits = Array.isArray(capability)
+        ? capability.includes(value)
+        : typeof capability === 'object'
+          ? typeof value === 'number' && value >= capability.min && value <= capability.max
+          : typeof value === 'boolean';
+
+      if (fits) {
+        constraints[key] = value;
+      } else {
+        console.warn(`⚠️ ${key}=${value} fuera de lo que soporta la cámara:`, capability);
+      }
+    });
+
+    return constraints;
+  }
+
+  private async captureSensorPhoto(cameraStream: CameraStream): Promise<Blob | null> {
+    const ImageCaptureCtor = (globalThis as ImageCaptureGlobal).ImageCapture;
+    const track = cameraStream.mediaStream?.getVideoTracks()[0];
+    if (!ImageCaptureCtor || !track || track.readyState !== 'live') {
+      return null;
+    }
+
+    try {
+      const imageCapture = new ImageCaptureCtor(track);
+      const capabilities = await imageCapture.getPhotoCapabilities();
+      const { fillLightMode, redEyeReduction } = this.professionalConfig;
+
+      const settings: PhotoSettings = {
+        imageWidth: capabilities.imageWidth?.max,
+        imageHeight: capabilities.imageHeight?.max,
+        ...(fillLightMode && capabilities.fillLightMode?.includes(fillLightMode) && { fillLightMode }),
+        ...(redEyeReduction !== undefined && capabilities.redEyeReduction === 'controllable' && { redEyeReduction })
+      };
+
+      const photo = await imageCapture.takePhoto(settings);
+      console.log(`📸 Foto HD [${cameraStream.config.id}] ${settings.imageWidth}x${settings.imageHeight}: ${(photo.size / 1024).toFixed(0)}KB`);
+      return photo;
+    } catch (error) {
+      console.warn(`⚠️ takePhoto no disponible en [${cameraStream.config.id}], se usa el frame del stream:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Obtener resolución real de la cámara
+   */
+  private getActualResolution(mediaStream: MediaStream): string {
+    const track = mediaStream.getVideoTracks()[0];
+    const settings = track.getSettings();
+    return `${settings.width}x${settings.height}`;
+  }
+
+  /**
+   * Iniciar el bucle de captura de un stream al ritmo que marque el scheduler
+   * adaptativo (compartido: todos los streams usan la misma conexión)
+   */
+  startCapture(
+    videoElement: HTMLVideoElement,
+    onThumbnailReady: (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) => void,
+    streamId: string = this.defaultStreamId
+  ): void {
+    const cameraStream = this.getStream(streamId);
+    if (cameraStream.captureTimer) {
+      this.stopCapture(streamId);
+    }
+
+    // El primer stream en arrancar reinicia los contadores globales y el scheduler
+    if (!this.isCapturing.value) {
+      this.startTime = Date.now();
+      this.stats.totalFramesCaptured = 0;
+      this.stats.skippedFrames = 0;
+      this.stats.motionSkippedFrames = 0;
+      this.stats.qualityRejectedFrames = 0;
+      this.stats.averageQualityScore = 0;
+      this.scoredFrames = 0;
+      this.scheduler.reset();
+    }
+
+    cameraStream.stats = { ...cameraStream.stats, capturing: true, framesCaptured: 0, skippedFrames: 0, motionSkippedFrames: 0, qualityRejectedFrames: 0 };
+    this.motionDetector.reset(streamId);
+    if (cameraStream.mediaStream) {
+      this.clipRecorder.attach(streamId, cameraStream.mediaStream);
+    }
+    this.isCapturing.next(true);
+    this.statsSubject.next({ ...this.stats });
+    this.publishStreamStats();
+
+    console.log(`⚡ Iniciando captura automática [${streamId}] a ${this.scheduler.effectiveRate.toFixed(1)} FPS...`);
+
+    this.scheduleNextCapture(cameraStream, ++cameraStream.captureSession, videoElement, onThumbnailReady);
+  }
+
+  /**
+   * Programar la siguiente captura con el intervalo vigente
+   */
+  private scheduleNextCapture(
+    cameraStream: CameraStream,
+    session: number,
+    videoElement: HTMLVideoElement,
+    onThumbnailReady: (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) => void
+  ): void {
+    cameraStream.captureTimer = setTimeout(async () => {
+      try {
+        this.updateSceneProfile(cameraStream, videoElement);
+
+        if (this.isRecovering(cameraStream)) {
+          // Cámara caída o congelada: no se envía el último frame una y otra vez
+        } else if (!this.scheduler.canDispatch()) {
+          // Backpressure: el backend aún no respondió los frames anteriores
+          this.stats.skippedFrames++;
+          cameraStream.stats.skippedFrames++;
+        } else if (!this.hasMotion(cameraStream, videoElement)) {
+          // Escena quieta: no vale la pena analizar el frame
+          this.stats.motionSkippedFrames++;
+          cameraStream.stats.motionSkippedFrames++;
+        } else {
+          await this.captureBurst(cameraStream, videoElement, onThumbnailReady);
+        }
+        this.updateStats();
+      } catch (error) {
+        console.error(`❌ Error en captura automática [${cameraStream.config.id}]:`, error);
+      }
+
+      if (cameraStream.stats.capturing && session === cameraStream.captureSession) {
+        this.scheduleNextCapture(cameraStream, session, videoElement, onThumbnailReady);
+      }
+    }, this.scheduler.currentInterval);
+  }
+
+  /**
+   * Tomar una ráfaga corta y enviar solo el frame más nítido que supere
+   * el umbral de calidad; si ninguno lo supera no se envía nada
+   */
+  private async captureBurst(
+    cameraStream: CameraStream,
+    videoElement: HTMLVideoElement,
+    onThumbnailReady: (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) => void
+  ): Promise<void> {
+    if (!videoElement.videoWidth || !videoElement.videoHeight) {
+      return;
+    }
+
+    const { enabled, burstSize, burstSpacing } = this.frameQuality.getConfig();
+    const frames = enabled ? Math.max(1, burstSize) : 1;
+    const crop = this.roiCrop(cameraStream, videoElement.videoWidth, videoElement.videoHeight);
+    let best: { frame: ImageBitmap; quality: FrameQuality | null } | null = null;
+    let rejected: FrameQuality | null = null;
+
+    for (let i = 0; i < frames; i++) {
+      if (i > 0) {
+        await new Promise(resolve => setTimeout(resolve, burstSpacing));
+      }
+
+      const frame = await createImageBitmap(videoElement);
+      const quality = enabled ? this.frameQuality.score(frame, crop) : null;
+
+      if (quality && !quality.accepted) {
+        rejected = quality;
+        frame.close();
+      } else if (!best || (quality && best.quality && quality.sharpness > best.quality.sharpness)) {
+        best?.frame.close();
+        best = { frame, quality };
+      } else {
+        frame.close();
+      }
+    }
+
+    if (!best) {
+      this.stats.qualityRejectedFrames++;
+      cameraStream.stats.qualityRejectedFrames++;
+      console.log(`🌫️ Ráfaga [${cameraStream.config.id}] descartada: ${rejected?.rejectReason} (nitidez ${rejected?.sharpness})`);
+      return;
+    }
+
+    // El frame pasa al buffer HD: solo se codificará si el backend reporta placa
+    await this.captureFrame(cameraStream, best.frame, crop, best.quality, onThumbnailReady);
+  }
+
+  /**
+   * Enviar el frame elegido de la ráfaga - OPTIMIZADO con ImageProcessor.
+   * El frame queda en el buffer HD sin codificar, indexado por su captureId.
+   */
+  private async captureFrame(
+    cameraStream: CameraStream,
+    frame: ImageBitmap,
+    crop: CropRect | null,
+    quality: FrameQuality | null,
+    onThumbnailReady: (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) => void
+  ): Promise<void> {
+    // Thumbnail y HD comparten ID para poder correlacionarlos con el resultado
+    const captureId = this.generateCaptureId(cameraStream.config.id);
+    this.frameBuffer.push(cameraStream.config.id, captureId, frame, quality);
+
+    try {
+      // Usar ImageProcessor para thumbnail optimizado (formato y tamaño negociados, con Pica.js)
+      const thumbnail = await this.imageProcessor.processImageTo300x300(
+        frame,
+        this.imageFormat.selectEncoding(),
+        this.imageFormat.maxBytes,
+        crop,
+        this.sceneProfiles.profileFor(cameraStream.config.id).preprocessing
+      );
+
+      // Ejecutar callback
+      onThumbnailReady(thumbnail, captureId, quality);
+
+      // Obtener estadísticas del procesamiento
+      const processingStats = this.imageProcessor.getLastProcessingStats();
+      if (processingStats) {
+        console.log(
+          `📊 Procesamiento: ${processingStats.processingTime}ms | Pica.js: ${processingStats.originalSize.megapixels}MP → ${thumbnail.encoding.width}x${thumbnail.encoding.height}`
+        );
+      }
+
+      this.recordCapture(cameraStream, quality);
+    } catch (error) {
+      console.error('❌ Error en captura optimizada:', error);
+      // Fallback al método anterior si ImageProcessor falla
+      await this.captureFrameFallback(
+        cameraStream,
+        frame,
+        captureId,
+        crop,
+        quality,
+        onThumbnailReady
+      );
+    }
+  }
+
+  /**
+   * Método fallback con redimensionado manual
+   */
+  private async captureFrameFallback(
+    cameraStream: CameraStream,
+    frame: ImageBitmap,
+    captureId: string,
+    crop: CropRect | null,
+    quality: FrameQuality | null,
+    onThumbnailReady: (thumbnail: EncodedImage, captureId: string, quality: FrameQuality | null) => void
+  ): Promise<void> {
+    console.log('⚠️ Usando fallback: redimensionado manual');
+
+    // Canvas para thumbnail del tamaño negociado (método manual)
+    const { width, height } = this.imageFormat.selectEncoding();
+    const thumbnailCanvas = document.createElement('canvas');
+    const thumbnailCtx = thumbnailCanvas.getContext('2d')!;
+    thumbnailCanvas.width = width;
+    thumbnailCanvas.height = height;
+
+    // Región de origen: la ROI o el frame completo
+    const region = crop ?? { x: 0, y: 0, width: frame.width, height: frame.height };
+
+    // Redimensionar manteniendo aspect ratio
+    const scale = Math.min(
+      width / region.width,
+      height / region.height
+    );
+    const scaledWidth = region.width * scale;
+    const scaledHeight = region.height * scale;
+    const offsetX = (width - scaledWidth) / 2;
+    const offsetY = (height - scaledHeight) / 2;
+
+    thumbnailCtx.drawImage(
+      frame,
+      region.x,
+      region.y,
+      region.width,
+      region.height,
+      offsetX,
+      offsetY,
+      scaledWidth,
+      scaledHeight
+    );
+
+    // Convertir a Blob (JPEG: lo codifican todos los navegadores)
+    const thumbnailQuality = 0.85;
+    const thumbnailBlob = await new Promise<Blob>((resolve) => {
+      thumbnailCanvas.toBlob((blob) => resolve(blob!), 'image/jpeg', thumbnailQuality);
+    });
+
+    // Ejecutar callback
+    onThumbnailReady(
+      { blob: thumbnailBlob, encoding: { format: thumbnailBlob.type, quality: thumbnailQuality, width, height } },
+      captureId,
+      quality
+    );
+
+    this.recordCapture(cameraStream, quality);
+  }
+
+  /**
+   * Recorte de la ROI del dispositivo abierto por el stream (null = frame completo)
+   */
+  private roiCrop(cameraStream: CameraStream, width: number, height: number): CropRect | null {
+    const deviceId = this.activeDevices.value[cameraStream.config.id];
+    return deviceId ? this.roiService.cropFor(deviceId, width, height) : null;
+  }
+
+  /**
+   * Vigilar el track abierto del stream; ante un fallo se reinicia la cámara
+   * (una imagen fija de la cámara simulada no cuenta como congelada)
+   */
+  private watchCamera(cameraStream: CameraStream): void {
+    if (!cameraStream.mediaStream || !cameraStream.videoElement) {
+      return;
+    }
+    this.watchdog.watch(
+      cameraStream.config.id,
+      cameraStream.mediaStream,
+      cameraStream.videoElement,
+      reason => this.scheduleRecovery(cameraStream, reason),
+      !this.simulated
+    );
+  }
+
+  /**
+   * Programar el reinicio de la cámara con espera exponencial. Los intentos
+   * vuelven a cero si la cámara llevaba `stableAfter` ms funcionando; tras
+   * `maxAttempts` se marca como caída pero se sigue reintentando (p.ej. hasta
+   * que se vuelva a conectar el USB).
+   */
+  private scheduleRecovery(cameraStream: CameraStream, reason: CameraFailureReason): void {
+    const streamId = cameraStream.config.id;
+    const health = this.health.value[streamId];
+    if (!health || !cameraStream.videoElement) {
+      return; // Cámara detenida
+    }
+
+    const now = Date.now();
+    const { retryDelay, maxRetryDelay, maxAttempts, stableAfter } = this.watchdogConfig;
+    const attempts = health.state === 'healthy' && now - cameraStream.lastRecoveredAt > stableAfter ? 0 : health.attempts;
+    const delay = Math.min(maxRetryDelay, retryDelay * 2 ** attempts);
+
+    clearTimeout(cameraStream.recoveryTimer);
+    cameraStream.recoveryTimer = setTimeout(() => this.restartMediaStream(cameraStream, reason), delay);
+    this.setHealth(streamId, {
+      ...health,
+      state: attempts >= maxAttempts ? 'failed' : 'recovering',
+      reason,
+      attempts: attempts + 1,
+      nextRetryAt: now + delay,
+      lastFailureAt: now
+    });
+    console.warn(`🩺 Reiniciando cámara [${streamId}] (${reason}) en ${(delay / 1000).toFixed(1)}s - intento ${attempts + 1}`);
+  }
+
+  /**
+   * Volver a abrir la cámara en el mismo elemento de video; si falla se reprograma
+   */
+  private async restartMediaStream(cameraStream: CameraStream, reason: CameraFailureReason): Promise<void> {
+    const streamId = cameraStream.config.id;
+    const videoElement = cameraStream.videoElement;
+    cameraStream.recoveryTimer = null;
+    if (!videoElement) {
+      return;
+    }
+
+    this.clipRecorder.detach(streamId);
+    cameraStream.mediaStream?.getTracks().forEach(track => track.stop());
+    cameraStream.mediaStream = null;
+
+    let mediaStream: MediaStream;
+    try {
+      mediaStream = await this.openMediaStream(streamId);
+    } catch (error) {
+      console.error(`❌ No se pudo reiniciar la cámara [${streamId}]:`, error);
+      this.scheduleRecovery(cameraStream, reason);
+      return;
+    }
+
+    // Detenida o cambiada mientras se abría
+    if (cameraStream.videoElement !== videoElement || cameraStream.mediaStream) {
+      mediaStream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    cameraStream.mediaStream = mediaStream;
+    cameraStream.lastRecoveredAt = Date.now();
+    videoElement.srcObject = mediaStream;
+    this.motionDetector.reset(streamId);
+    if (cameraStream.stats.capturing) {
+      this.clipRecorder.attach(streamId, mediaStream);
+    }
+    this.watchCamera(cameraStream);
+
+    const health = this.health.value[streamId];
+    this.setHealth(streamId, { ...health, state: 'healthy', restarts: health.restarts + 1, nextRetryAt: null });
+    console.log(`✅ Cámara [${streamId}] recuperada: ${this.getActualResolution(mediaStream)}`);
+  }
+
+  private isRecovering(cameraStream: CameraStream): boolean {
+    return cameraStream.recoveryTimer !== null || !cameraStream.mediaStream;
+  }
+
+  /**
+   * Muestrear la luz de la escena y, si cambia el perfil, llevar sus ajustes a la cámara
+   */
+  private updateSceneProfile(cameraStream: CameraStream, videoElement: HTMLVideoElement): void {
+    const profile = this.sceneProfiles.sample(cameraStream.config.id, videoElement);
+    if (profile && cameraStream.mediaStream) {
+      this.applyAdvancedSettings(cameraStream.mediaStream, cameraStream.config.id);
+    }
+  }
+
+  /**
+   * Movimiento en el stream, mirando solo dentro de sus ROI si las hay
+   */
+  private hasMotion(cameraStream: CameraStream, videoElement: HTMLVideoElement): boolean {
+    const deviceId = this.activeDevices.value[cameraStream.config.id];
+    const rois = deviceId ? this.roiService.getRois(deviceId) : [];
+    return this.motionDetector.hasMotion(cameraStream.config.id, videoElement, rois);
+  }
+
+  /**
+   * Contar frame capturado en el total y en su stream
+   */
+  private recordCapture(cameraStream: CameraStream, quality: FrameQuality | null): void {
+    const now = Date.now();
+    if (quality) {
+      this.scoredFrames++;
+      this.stats.averageQualityScore += (quality.score - this.stats.averageQualityScore) / this.scoredFrames;
+    }
+    this.stats.totalFramesCaptured++;
+    this.stats.lastCaptureTime = now;
+    this.stats.thumbnailsSent++;
+    cameraStream.stats.framesCaptured++;
+    cameraStream.stats.lastCaptureTime = now;
+  }
+
+  /**
+   * Generar ID único por frame capturado (prefijado con su stream)
+   */
+  private generateCaptureId(streamId: string): string {
+    return `cap_${streamId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Detener la captura automática de un stream, o de todos si no se indica
+   */
+  stopCapture(streamId?: string): void {
+    const targets = streamId ? [this.getStream(streamId)] : Array.from(this.streams.values());
+
+    targets.forEach(cameraStream => {
+      cameraStream.captureSession++;
+      clearTimeout(cameraStream.captureTimer);
+      cameraStream.captureTimer = null;
+      cameraStream.stats.capturing = false;
+      this.clipRecorder.detach(cameraStream.config.id);
+    });
+
+    this.isCapturing.next(Array.from(this.streams.values()).some(cameraStream => cameraStream.stats.capturing));
+    this.publishStreamStats();
+    console.log(`⏹️ Captura automática detenida${streamId ? ` [${streamId}]` : ''}`);
+  }
+
+  /**
+   * Foto a la resolución máxima del sensor con ImageCapture.takePhoto.
+   * Devuelve null si el navegador no tiene la API o la cámara la rechaza,
+   * para que quien llama use el frame del stream.
+   */
+  takePhoto(streamId: string = this.defaultStreamId): Promise<Blob | null> {
+    const cameraStream = this.getStream(streamId);
+    if (!cameraStream.pendingPhoto) {
+      cameraStream.pendingPhoto = this.captureSensorPhoto(cameraStream)
+        .finally(() => cameraStream.pendingPhoto = null);
+    }
+    return cameraStream.pendingPhoto;
+  }
+
+  /**
+   * Frame HD de una captura, codificado desde el buffer (null si ya salió del buffer)
+   */
+  getBufferedFrame(captureId: string, streamId: string = this.defaultStreamId): Promise<BufferedFrame | null> {
+    return this.frameBuffer.encode(streamId, captureId);
+  }
+
+  /**
+   * Captura con sus frames anteriores y posteriores del buffer, codificados a JPEG
+   */
+  getFramesAround(captureId: string, streamId: string = this.defaultStreamId): Promise<BufferedFrame[]> {
+    return this.frameBuffer.around(streamId, captureId);
+  }
+
+  /**
+   * Clip de video con pre-roll y post-roll alrededor de este instante
+   * (solo mientras el stream está capturando)
+   */
+  recordClip(streamId: string = this.defaultStreamId): Promise<EventClip | null> {
+    return this.clipRecorder.capture(streamId);
+  }
+
+  /**
+   * Guardar imagen HD en el dispositivo
+   */
+  async saveHDImage(blob: Blob, filename?: string): Promise<void> {
+    try {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename || `placa_hd_${Date.now()}.jpg`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      this.stats.hdImagesSaved++;
+      this.stats.totalImages++;
+      this.statsSubject.next({ ...this.stats });
+      console.log(`💾 Imagen HD guardada: ${a.download}`);
+    } catch (error) {
+      console.error('❌ Error guardando imagen HD:', error);
+    }
+  }
+
+  /**
+   * Guardar imagen procesada WebP (300x300) automáticamente
+   */
+  async saveProcessedImage(blob: Blob): Promise<void> {
+    try {
+      // Detectar formato basado en el tipo MIME del blob
+      const format = blob.type.includes('webp') ? 'webp' : 
+                    blob.type.includes('jpeg') ? 'jpg' : 'png';
+      
+      const timestamp = Date.now();
+      const filename = `placa_300x300_${timestamp}.${format}`;
+      
+      // Crear enlace de descarga
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.style.display = 'none';
+      
+      // Agregar al DOM temporalmente para activar la descarga
+      document.body.appendChild(a);
+      a.click();
+      
+      // Limpiar recursos
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      
+      // Actualizar estadísticas
+      this.stats.totalImages++;
+      this.statsSubject.next({ ...this.stats });
+      
+      console.log(`💾 Imagen WebP guardada automáticamente: ${filename} (${(blob.size / 1024).toFixed(2)}KB)`);
+      
+    } catch (error) {
+      console.error('❌ Error guardando imagen procesada:', error);
+    }
+  }
+
+  /**
+   * Actualizar estadísticas
+   */
+  private updateStats(): void {
+    const elapsed = (Date.now() - this.startTime) / 1000;
+    this.stats.averageFPS = this.stats.totalFramesCaptured / elapsed;
+    this.stats.captureInterval = Math.round(this.scheduler.currentInterval);
+    this.stats.effectiveRate = Math.round(this.scheduler.effectiveRate * 100) / 100;
+
+    // Emitir cambios al observable
+    this.statsSubject.next({ ...this.stats });
+    this.publishStreamStats();
+  }
+
+  /**
+   * Obtener estadísticas de captura
+   */
+  getStats(): CameraStatistics {
+    return { ...this.stats };
+  }
+
+  /**
+   * Observable del estado de captura
+   */
+  get isCapturing$(): Observable<boolean> {
+    return this.isCapturing.asObservable();
+  }
+
+  /**
+   * Observable de las estadísticas de cámara
+   */
+  get stats$(): Observable<CameraStatistics> {
+    return this.statsSubject.asObservable();
+  }
+
+  /**
+   * Observable con las estadísticas de captura de cada stream
+   */
+  get streamStats$(): Observable<StreamCaptureStats[]> {
+    return this.streamStats.asObservable();
+  }
+
+  /**
+   * Observable de la salud de la cámara de cada stream abierto
+   */
+  get health$(): Observable<Record<string, CameraHealth>> {
+    return this.health.asObservable();
+  }
+
+  /**
+   * Detener la cámara de un stream (o todas) y liberar recursos
+   */
+  stopCamera(streamId?: string): void {
+    this.stopCapture(streamId);
+
+    const targets = streamId ? [this.getStream(streamId)] : Array.from(this.streams.values());
+    targets.forEach(cameraStream => {
+      this.watchdog.unwatch(cameraStream.config.id);
+      clearTimeout(cameraStream.recoveryTimer);
+      cameraStream.recoveryTimer = null;
+      cameraStream.mediaStream?.getTracks().forEach((track) => track.stop());
+      cameraStream.mediaStream = null;
+      cameraStream.videoElement = null;
+      this.frameBuffer.clear(cameraStream.config.id);
+      this.sceneProfiles.reset(cameraStream.config.id);
+    });
+
+    const activeDevices = { ...this.activeDevices.value };
+    targets.forEach(cameraStream => delete activeDevices[cameraStream.config.id]);
+    this.activeDevices.next(activeDevices);
+
+    const health = { ...this.health.value };
+    targets.forEach(cameraStream => delete health[cameraStream.config.id]);
+    this.health.next(health);
+
+    console.log(streamId ? `📷 Cámara [${streamId}] detenida y recursos liberados` : '📷 Cámaras detenidas y recursos liberados');
+  }
+
+  /**
+   * Obtener configuración actual
+   */
+  getConfig(): CameraConfiguration {
+    return { ...this.professionalConfig };
+  }
+
+  /**
+   * Actualizar configuración
+   */
+  updateConfig(newConfig: Partial<CameraConfiguration>): void {
+    this.professionalConfig = { ...this.professionalConfig, ...newConfig };
+    console.log('⚙️ Configuración actualizada:', newConfig);
+
+    // Llevar la nueva configuración a las cámaras ya abiertas
+    this.streams.forEach(cameraStream => {
+      if (cameraStream.mediaStream) {
+        this.applyAdvancedSettings(cameraStream.mediaStream, cameraStream.config.id);
+      }
+    });
+  }
+
+  /**
+   * Capacidades y valores actuales del track de video de un stream
+   * (null si la cámara no está abierta o el navegador no las expone)
+   */
+  getTrackControls(streamId: string = this.defaultStreamId): CameraTrackControls | null {
+    const track = this.getStream(streamId).mediaStream?.getVideoTracks()[0];
+    if (!track || typeof track.getCapabilities !== 'function') {
+      return null;
+    }
+
+    return {
+      capabilities: track.getCapabilities(),
+      settings: track.getSettings()
+    };
+  }
+
+  /**
+   * Aplicar controles en vivo al track de un stream. Los valores manuales
+   * fuerzan su modo (exposición, foco, balance de blancos) a 'manual'.
+   * Devuelve los valores que quedaron aplicados.
+   */
+  async applyControls(streamId: string, controls: CameraControlValues): Promise<MediaTrackSettings> {
+    const cameraStream = this.getStream(streamId);
+    const track = cameraStream.mediaStream?.getVideoTracks()[0];
+    if (!track) {
+      throw new Error(`La cámara del stream ${streamId} no está abierta`);
+    }
+
+    const wanted: CameraControlValues = { ...controls };
+    if ('exposureTime' in controls && !('exposureMode' in controls)) wanted['exposureMode'] = 'manual';
+    if ('focusDistance' in controls && !('focusMode' in controls)) wanted['focusMode'] = 'manual';
+    if ('colorTemperature' in controls && !('whiteBalanceMode' in controls)) wanted['whiteBalanceMode'] = 'manual';
+
+    const constraints = this.fitToCapabilities(track.getCapabilities(), wanted);
+    await track.applyConstraints({ advanced: [constraints] } as MediaTrackConstraints);
+    // Recordarlos para que cambios de perfil, reinicios y updateConfig no los pisen
+    cameraStream.controlOverrides = { ...cameraStream.controlOverrides, ...constraints };
+    console.log(`🎛️ Controles aplicados [${streamId}]:`, constraints);
+
+    return track.getSettings();
+  }
+
+  /**
+   * Incrementar contador de placas detectadas
+   */
+  incrementPlateDetection(streamId: string = this.defaultStreamId): void {
+    this.stats.detectedPlates++;
+    this.getStream(streamId).stats.detectedPlates++;
+    this.statsSubject.next({ ...this.stats });
+    this.publishStreamStats();
+  }
+
+  private getStream(streamId: string): CameraStream {
+    const cameraStream = this.streams.get(streamId);
+    if (!cameraStream) {
+      throw new Error(`Stream de cámara desconocido: ${streamId}`);
+    }
+    return cameraStream;
+  }
+
+  /**
+   * Registrar qué dispositivo tiene abierto el stream (clave de sus ROI)
+   */
+  protected markActiveDevice(streamId: string, deviceId: string): void {
+    this.activeDevices.next({ ...this.activeDevices.value, [streamId]: deviceId });
+  }
+
+  private loadDeviceSelection(): Record<string, string> {
+    if (!this.isBrowser) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(localStorage.getItem(this.DEVICE_SELECTION_KEY) ?? '{}');
+    } catch (error) {
+      console.error('❌ Error leyendo cámaras seleccionadas:', error);
+      return {};
+    }
+  }
+
+  private saveDeviceSelection(streamId: string, deviceId: string): void {
+    if (!this.isBrowser) {
+      return;
+    }
+
+    try {
+      const selection = { ...this.loadDeviceSelection(), [streamId]: deviceId };
+      localStorage.setItem(this.DEVICE_SELECTION_KEY, JSON.stringify(selection));
+    } catch (error) {
+      console.error('❌ Error guardando cámara seleccionada:', error);
+    }
+  }
+
+  private setHealth(streamId: string, health: Omit<CameraHealth, 'streamId'>): void {
+    this.health.next({ ...this.health.value, [streamId]: { streamId, ...health } });
+  }
+
+  private publishStreamStats(): void {
+    this.streamStats.next(Array.from(this.streams.values()).map(cameraStream => ({ ...cameraStream.stats })));
+  }
+}
@@ -0,0 +1,252 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { isPlatformBrowser } from '@angular/common';
+import { AnalysisAck, EncodedImage, PlateDetectionResult } from '../interfaces/plate-detection.interface';
+import { AnalysisTransport, FrameMetadata } from '../core/abstractions/analysis-transport.abstract';
+import { BackendRegistryService } from './backend-registry.service';
+import { AuthService } from './auth.service';
+import { ProtocolService } from './protocol.service';
+
+// Sobre JSON intercambiado por el WebSocket nativo
+interface WebSocketEnvelope {
+  event: string;
+  payload?: any;
+  ackId?: number; // Presente cuando el emisor espera confirmación
+}
+
+/**
+ * Transporte WebSocket nativo (sin el protocolo de Socket.IO)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WebSocketTransportService extends AnalysisTransport {
+  private socket: WebSocket | null = null;
+  private connected = new BehaviorSubject<boolean>(false);
+  private messages = new Subject<PlateDetectionResult | null>();
+  private failures = new Subject<string>();
+  private pendingAcks = new Map<number, (response: any) => void>(); // null = sin ack
+
+  private nextAckId = 1;
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 5;
+  private manualDisconnect = false;
+  private readonly ACK_TIMEOUT = 5000;
+  private readonly UNAUTHORIZED_CLOSE_CODE = 4401; // Código de cierre del servidor
+  private isBrowser: boolean;
+
+  constructor(
+    @Inject(PLATFORM_ID) private platformId: Object,
+    private backendRegistry: BackendRegistryService,
+    private authService: AuthService,
+    private protocolService: ProtocolService
+  ) {
+    super();
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  connect(): void {
+    this.manualDisconnect = false;
+    this.reconnectAttempts = 0;
+    this.openSocket();
+  }
+
+  /**
+   * Enviar imagen para análisis etiquetada con su requestId
+   */
+  async sendImageForAnalysis(image: EncodedImage, frame: FrameMetadata): Promise<AnalysisAck | null> {
+    const { requestId } = frame;
+
+    if (!this.isConnected()) {
+      console.error('❌ WebSocket no conectado');
+      return null;
+    }
+
+    let payload;
+    try {
+      payload = await this.buildImagePayload(image, frame, this.authService.clientId);
+    } catch (error) {
+      console.error('❌ Error leyendo archivo:', error);
+      return null;
+    }
+
+    console.log(`📤 Enviando imagen ${payload.format} vía WebSocket [${requestId}]: ${payload.size} bytes`);
+
+    const ack = await this.emitWithAck<AnalysisAck>('analyze-image', payload, this.ACK_TIMEOUT, {
+      requestId,
+      accepted: true
+    });
+    if (!ack) {
+      console.warn(`⚠️ Sin ack del servidor para ${requestId}`);
+    }
+    return ack;
+  }
+
+  /**
+   * Emitir evento esperando confirmación del servidor
+   */
+  emitWithAck<T>(event: string, payload: any, timeout: number = this.ACK_TIMEOUT, fallback?: T): Promise<T | null> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.resolve(null);
+    }
+
+    const ackId = this.nextAckId++;
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(ackId);
+        resolve(null);
+      }, timeout);
+
+      this.pendingAcks.set(ackId, (response: T | null | undefined) => {
+        clearTimeout(timer);
+        resolve(response === null ? null : (response ?? fallback ?? null));
+      });
+
+      socket.send(this.serialize({ event, payload, ackId }));
+    });
+  }
+
+  handleAnalysisResult(): Observable<PlateDetectionResult | null> {
+    return this.messages.asObservable();
+  }
+
+  isConnected(): boolean {
+    return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  isConnected$(): Observable<boolean> {
+    return this.connected.asObservable();
+  }
+
+  connectionFailed$(): Observable<string> {
+    return this.failures.asObservable();
+  }
+
+  disconnect(): void {
+    this.manualDisconnect = true;
+    this.closeSocket();
+  }
+
+  // --- MÉTODOS PRIVADOS ---
+
+  private openSocket(): void {
+    if (!this.isBrowser || typeof WebSocket === 'undefined') {
+      console.log('🚫 WebSocket no disponible en este entorno');
+      return;
+    }
+
+    this.closeSocket();
+
+    const socket = new WebSocket(`${this.backendRegistry.activeUrl.replace(/^http/, 'ws')}/ws`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      // El token va en el primer mensaje y no en la URL, que acaba en logs de proxies.
+      // Si el servidor lo rechaza cierra con UNAUTHORIZED_CLOSE_CODE
+      socket.send(this.serialize({ event: 'auth', payload: { token: this.authService.token } }));
+      console.log('🔗 Conectado al servidor WebSocket');
+      this.reconnectAttempts = 0;
+      this.connected.next(true);
+    };
+
+    socket.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+
+    socket.onclose = (event: CloseEvent) => {
+      if (this.socket !== socket) return;
+
+      console.log('📵 Desconectado del servidor WebSocket');
+      this.socket = null;
+      this.connected.next(false);
+      this.rejectPendingAcks();
+
+      if (event.code === this.UNAUTHORIZED_CLOSE_CODE) {
+        this.handleUnauthorized('token rechazado por el servidor');
+      } else if (!this.manualDisconnect) {
+        this.attemptReconnect();
+      }
+    };
+
+    socket.onerror = (error: Event) => {
+      console.error('❌ Error en WebSocket:', error);
+    };
+  }
+
+  private attemptReconnect(): void {
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.reconnectAttempts++;
+      console.log(`🔄 Reconectando WebSocket... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+
+      setTimeout(() => {
+        if (!this.manualDisconnect) {
+          this.openSocket();
+        }
+      }, 2000 * this.reconnectAttempts);
+    } else {
+      console.error('❌ Máximo de intentos de reconexión WebSocket alcanzado');
+      this.failures.next('WebSocket no pudo establecer conexión');
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let envelope: WebSocketEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      console.error('❌ Mensaje WebSocket inválido:', error);
+      return;
+    }
+
+    if (envelope.event === 'ack' && envelope.ackId !== undefined) {
+      this.pendingAcks.get(envelope.ackId)?.(envelope.payload);
+      this.pendingAcks.delete(envelope.ackId);
+    } else if (envelope.event === 'analysis-result') {
+      this.messages.next(this.protocolService.parseResult(envelope.payload, 'websocket'));
+    }
+  }
+
+  /**
+   * Credenciales inválidas: no reintentar, pedir login
+   */
+  private handleUnauthorized(reason: string): void {
+    this.manualDisconnect = true;
+    this.closeSocket();
+    this.authService.handleUnauthorized(reason);
+  }
+
+  /**
+   * Serializar a JSON codificando los datos binarios en base64
+   */
+  private serialize(envelope: WebSocketEnvelope): string {
+    return JSON.stringify(envelope, (_key, value) => {
+      if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        const bytes = value instanceof ArrayBuffer
+          ? new Uint8Array(value)
+          : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+        let binary = '';
+        bytes.forEach(byte => binary += String.fromCharCode(byte));
+        return { $base64: btoa(binary) };
+      }
+      return value;
+    });
+  }
+
+  /**
+   * Resolver sin ack las confirmaciones pendientes de un socket cerrado
+   */
+  private rejectPendingAcks(): void {
+    this.pendingAcks.forEach(settle => settle(null));
+    this.pendingAcks.clear();
+  }
+
+  private closeSocket(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+      this.connected.next(false);
+      this.rejectPendingAcks();
+    }
+  }
+}
@@ -0,0 +1,84 @@
+// Entorno contra el backend simulado de server.ts (MOCK_BACKEND=1, puerto 4000)
+export const environment = {
+  production: false,
+  backends: [
+    { name: 'Mock', url: 'http://localhost:4000', priority: 1 }
+  ],
+  streams: [
+    { id: 'carril-1', label: 'Carril 1' }
+  ],
+  fakeCamera: {
+    enabled: false,
+    video: '',
+    images: [] as string[],
+    frameRate: 10
+  },
+  // El mock solo implementa el protocolo Socket.IO
+  transports: ['socket.io'],
+  capture: {
+    minInterval: 250,
+    maxInterval: 3000,
+    initialInterval: 500,
+    maxInFlight: 2
+  },
+  motion: {
+    enabled: true,
+    sensitivity: 0.6,
+    minChangedArea: 0.005,
+    useRoiMask: true,
+    holdTime: 3000,
+    width: 96
+  },
+  frameQuality: {
+    enabled: true,
+    minSharpness: 40,
+    minContrast: 12,
+    maxClipped: 0.35,
+    burstSize: 3,
+    burstSpacing: 60,
+    width: 320
+  },
+  frameBuffer: {
+    size: 8,
+    preRoll: 1,
+    postRoll: 1,
+    postRollTimeout: 2000,
+    hdQuality: 0.99
+  },
+  clips: {
+    enabled: true,
+    preRoll: 5000,
+    postRoll: 5000,
+    segment: 5000,
+    videoBitsPerSecond: 2_500_000
+  },
+  sceneProfiles: {
+    enabled: true,
+    sampleInterval: 2000,
+    dayLuminance: 110,
+    nightLuminance: 45,
+    hysteresis: 12,
+    confirmSamples: 3,
+    backlitHighlights: 0.2,
+    backlitShadows: 0.3
+  },
+  watchdog: {
+    enabled: true,
+    checkInterval: 2000,
+    frozenTimeout: 10000,
+    stallTimeout: 5000,
+    muteTimeout: 5000,
+    retryDelay: 1000,
+    maxRetryDelay: 30000,
+    maxAttempts: 5,
+    stableAfter: 60000
+  },
+  fileAnalysis: {
+    sampleRate: 1
+  },
+  hdUpload: {
+    chunkSize: 64 * 1024,
+    ackTimeout: 5000,
+    maxRetries: 3
+  }
+};
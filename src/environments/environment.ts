@@ -1,5 +1,100 @@
 export const environment = {
   production: false,
-  //apiUrl: 'http://localhost:3000',
-  apiUrl: 'https://back-irix.onrender.com'
+  // Backends en orden de prioridad (1 = primario); se sondean y se hace failover/failback
+  backends: [
+    //{ name: 'Local', url: 'http://localhost:3000', priority: 1 },
+    { name: 'Render', url: 'https://back-irix.onrender.com', priority: 1 }
+  ],
+  // Cámaras del punto de control (una por carril); el id viaja en cada payload y resultado
+  streams: [
+    { id: 'carril-1', label: 'Carril 1' }
+    //{ id: 'carril-2', label: 'Carril 2' }
+  ],
+  // Cámara simulada para demos y para reproducir incidencias sin cámara física:
+  // reproduce en bucle un video o una secuencia de imágenes (rutas servidas por la app)
+  fakeCamera: {
+    enabled: false,
+    video: '', // p.ej. 'assets/fake-camera/carril.mp4'; tiene prioridad sobre las imágenes
+    images: [] as string[], // p.ej. ['assets/fake-camera/frame-001.jpg', ...]
+    frameRate: 10 // FPS del stream simulado
+  },
+  // Transportes en orden de preferencia; se pasa al siguiente si uno falla
+  transports: ['socket.io', 'websocket', 'http'],
+  // Límites del scheduler adaptativo de captura
+  capture: {
+    minInterval: 250, // 4 FPS máximo
+    maxInterval: 3000, // Nunca menos de 1 frame cada 3s
+    initialInterval: 500, // 2 FPS al iniciar
+    maxInFlight: 2
+  },
+  // Detector de movimiento: en una escena quieta no se envían frames
+  motion: {
+    enabled: true,
+    sensitivity: 0.6, // 0..1 - mayor = detecta cambios más sutiles
+    minChangedArea: 0.005, // 0.5% de los píxeles (o de la ROI) debe cambiar
+    useRoiMask: true, // Con ROI dibujadas solo se mira dentro de ellas
+    holdTime: 3000, // ms que se sigue enviando tras el último movimiento (vehículo detenido)
+    width: 96 // Ancho del frame reducido que se compara
+  },
+  // Calidad de frame: se descartan frames borrosos o mal expuestos y de cada
+  // ráfaga solo se envía el más nítido
+  frameQuality: {
+    enabled: true,
+    minSharpness: 40, // Varianza del Laplaciano medida a 320px de ancho
+    minContrast: 12, // Desviación estándar mínima de la luminancia
+    maxClipped: 0.35, // Fracción máxima de píxeles quemados o negros
+    burstSize: 3, // Frames comparados por captura
+    burstSpacing: 60, // ms entre frames de la ráfaga
+    width: 320
+  },
+  // Buffer HD: últimos frames enviados sin codificar; solo se codifican a JPEG
+  // la captura con placa y sus vecinas
+  frameBuffer: {
+    size: 8, // Frames por stream (cada uno ocupa ancho x alto x 4 bytes)
+    preRoll: 1, // Frames anteriores a la detección que se guardan
+    postRoll: 1, // Frames posteriores a la detección que se guardan
+    postRollTimeout: 2000, // ms máximos esperando el post-roll
+    hdQuality: 0.99
+  },
+  // Clips WebM de eventos (MediaRecorder) con segundos antes y después de la detección
+  clips: {
+    enabled: true,
+    preRoll: 5000, // ms antes del evento
+    postRoll: 5000, // ms después del evento
+    segment: 5000, // ms entre grabadoras solapadas (menor = pre-roll más exacto, más CPU)
+    videoBitsPerSecond: 2_500_000
+  },
+  // Perfiles de cámara según la luz de la escena (día / atardecer / noche / contraluz)
+  sceneProfiles: {
+    enabled: true,
+    sampleInterval: 2000, // ms entre muestras de luminancia
+    dayLuminance: 110, // Luminancia media (0-255) a partir de la cual es de día
+    nightLuminance: 45, // Por debajo es de noche; entre ambas, atardecer
+    hysteresis: 12, // Margen para salir del perfil actual
+    confirmSamples: 3, // Muestras seguidas que confirman el cambio
+    backlitHighlights: 0.2, // Fracción quemada que, junto a las sombras, indica contraluz
+    backlitShadows: 0.3
+  },
+  // Vigilante de salud de la cámara (track terminado, imagen congelada) con reinicio automático
+  watchdog: {
+    enabled: true,
+    checkInterval: 2000, // ms entre comprobaciones de frames
+    frozenTimeout: 10000, // ms con frames idénticos para dar la imagen por congelada
+    stallTimeout: 5000, // ms con el video sin dimensiones (videoWidth 0)
+    muteTimeout: 5000, // ms que puede durar un mute del track
+    retryDelay: 1000, // Espera del primer reinicio; se duplica en cada intento
+    maxRetryDelay: 30000,
+    maxAttempts: 5, // Intentos antes de marcar la cámara como caída (se sigue reintentando)
+    stableAfter: 60000 // ms funcionando tras los que se olvidan los intentos anteriores
+  },
+  // Análisis de grabaciones (video o carpeta de imágenes)
+  fileAnalysis: {
+    sampleRate: 1 // Frames por segundo de video enviados a analizar
+  },
+  // Subida HD por chunks cuando el backend responde requestHD
+  hdUpload: {
+    chunkSize: 64 * 1024, // 64KB por chunk
+    ackTimeout: 5000,
+    maxRetries: 3 // Reintentos por chunk antes de pausar la subida
+  }
 };